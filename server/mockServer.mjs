@@ -0,0 +1,227 @@
+// Local market data server for developing against a real WebSocket.
+//
+//   npm run mock-server
+//   open http://localhost:3000/?ws=ws://localhost:8081
+//
+// Speaks the app's WebSocketMessage JSON: on connect every symbol gets a book
+// snapshot (and its ticker once it has traded), followed by sequenced book
+// deltas, trades and tickers. Clients may send {type:'ping'} (answered with
+// {type:'pong'}) and {type:'snapshot_request', symbol}.
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.MOCK_SERVER_PORT ?? 8081);
+const BOOK_DEPTH = 20;
+const UPDATE_INTERVAL = [300, 800];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MARKETS = [
+  { symbol: 'BTC-USD', price: 50000, tickSize: 0.01, lotSize: 0.0001, volumeRange: [0.1, 5] },
+  { symbol: 'ETH-USD', price: 3000, tickSize: 0.01, lotSize: 0.001, volumeRange: [1, 50] },
+  { symbol: 'SOL-USD', price: 150, tickSize: 0.001, lotSize: 0.01, volumeRange: [10, 500] },
+];
+
+const decimals = step => Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+const randomBetween = ([min, max]) => Math.random() * (max - min) + min;
+
+const createMarket = spec => ({
+  ...spec,
+  priceDecimals: decimals(spec.tickSize),
+  quantityDecimals: decimals(spec.lotSize),
+  sequence: 0,
+  // Resting liquidity as ticks -> { lots, count }
+  bids: new Map(),
+  asks: new Map(),
+  published: { bids: [], asks: [] },
+  trades: [],
+  tradeId: 0,
+});
+
+const toPrice = (market, ticks) => Number((ticks * market.tickSize).toFixed(market.priceDecimals));
+const toQuantity = (market, lots) => Number((lots * market.lotSize).toFixed(market.quantityDecimals));
+const randomLots = market =>
+  Math.max(1, Math.round(randomBetween(market.volumeRange) / market.lotSize));
+
+const topLevels = (market, side) => {
+  const levels = side === 'buy' ? market.bids : market.asks;
+  const sorted = [...levels.entries()].sort(([a], [b]) => (side === 'buy' ? b - a : a - b));
+  let runningLots = 0;
+
+  return sorted.slice(0, BOOK_DEPTH).map(([ticks, { lots, count }]) => {
+    runningLots += lots;
+    return {
+      price: toPrice(market, ticks),
+      quantity: toQuantity(market, lots),
+      total: toQuantity(market, runningLots),
+      count,
+    };
+  });
+};
+
+const diffSide = (previous, next, side) => {
+  const changes = [];
+  const nextByPrice = new Map(next.map(level => [level.price, level]));
+  const previousByPrice = new Map(previous.map(level => [level.price, level]));
+
+  previous.forEach(level => {
+    if (!nextByPrice.has(level.price)) {
+      changes.push({ side, price: level.price, quantity: 0, count: 0 });
+    }
+  });
+  next.forEach(level => {
+    const before = previousByPrice.get(level.price);
+    if (!before || before.quantity !== level.quantity || before.count !== level.count) {
+      changes.push({ side, price: level.price, quantity: level.quantity, count: level.count });
+    }
+  });
+
+  return changes;
+};
+
+// Moves the price, pulls quotes it crossed and tops both sides back up
+const updateLiquidity = market => {
+  market.price = Math.max(market.price * 0.02, market.price * (1 + (Math.random() - 0.5) * 0.002));
+
+  const spreadTicks = Math.max(1, Math.round((market.price * 0.0003) / market.tickSize));
+  const bidTicks = Math.round(market.price / market.tickSize) - Math.ceil(spreadTicks / 2);
+  const askTicks = bidTicks + spreadTicks;
+  const bandTicks = Math.max(BOOK_DEPTH, Math.round((market.price * 0.006) / market.tickSize));
+
+  [...market.bids.keys()].forEach(ticks => {
+    if (ticks > bidTicks || Math.random() < 0.1) market.bids.delete(ticks);
+  });
+  [...market.asks.keys()].forEach(ticks => {
+    if (ticks < askTicks || Math.random() < 0.1) market.asks.delete(ticks);
+  });
+
+  const quote = (levels, ticks) => {
+    const level = levels.get(ticks) ?? { lots: 0, count: 0 };
+    levels.set(ticks, { lots: level.lots + randomLots(market), count: level.count + 1 });
+  };
+  while (market.bids.size < BOOK_DEPTH) {
+    quote(market.bids, bidTicks - Math.floor(Math.random() * bandTicks));
+  }
+  while (market.asks.size < BOOK_DEPTH) {
+    quote(market.asks, askTicks + Math.floor(Math.random() * bandTicks));
+  }
+};
+
+// A market order that takes from the best level on one side
+const takeLiquidity = market => {
+  const side = Math.random() > 0.5 ? 'buy' : 'sell';
+  const levels = side === 'buy' ? market.asks : market.bids;
+  const best = [...levels.keys()].sort((a, b) => (side === 'buy' ? a - b : b - a))[0];
+  if (best === undefined) return null;
+
+  const level = levels.get(best);
+  const lots = Math.min(level.lots, randomLots(market));
+  if (lots === level.lots) {
+    levels.delete(best);
+  } else {
+    levels.set(best, { ...level, lots: level.lots - lots });
+  }
+
+  const trade = {
+    id: `${market.symbol}_mock_${market.tradeId++}`,
+    price: toPrice(market, best),
+    quantity: toQuantity(market, lots),
+    side,
+    timestamp: Date.now(),
+  };
+  market.trades.push(trade);
+  return trade;
+};
+
+const tickerOf = market => {
+  const now = Date.now();
+  market.trades = market.trades.filter(trade => trade.timestamp >= now - DAY_MS);
+  if (market.trades.length === 0) return null;
+
+  const open = market.trades[0].price;
+  const last = market.trades[market.trades.length - 1].price;
+  const prices = market.trades.map(trade => trade.price);
+  const volume = market.trades.reduce((sum, trade) => sum + trade.quantity, 0);
+
+  return {
+    symbol: market.symbol,
+    lastPrice: last,
+    priceChange: Number((last - open).toFixed(market.priceDecimals)),
+    priceChangePercent: Number((((last - open) / open) * 100).toFixed(2)),
+    volume24h: Number(volume.toFixed(market.quantityDecimals)),
+    high24h: Math.max(...prices),
+    low24h: Math.min(...prices),
+  };
+};
+
+const message = (type, symbol, data) => JSON.stringify({ type, symbol, data, timestamp: Date.now() });
+
+const snapshotOf = market =>
+  message('snapshot', market.symbol, { sequence: market.sequence, ...market.published });
+
+const server = new WebSocketServer({ port: PORT });
+const markets = MARKETS.map(createMarket);
+
+const broadcast = data => {
+  server.clients.forEach(client => {
+    if (client.readyState === client.OPEN) client.send(data);
+  });
+};
+
+const publishBook = market => {
+  const next = { bids: topLevels(market, 'buy'), asks: topLevels(market, 'sell') };
+  const changes = [
+    ...diffSide(market.published.bids, next.bids, 'buy'),
+    ...diffSide(market.published.asks, next.asks, 'sell'),
+  ];
+  if (changes.length === 0) return;
+
+  market.published = next;
+  market.sequence += 1;
+  broadcast(message('delta', market.symbol, { sequence: market.sequence, changes }));
+};
+
+const step = market => {
+  if (Math.random() < 0.8) {
+    updateLiquidity(market);
+  } else {
+    const trade = takeLiquidity(market);
+    if (trade) {
+      broadcast(message('trade', market.symbol, trade));
+      broadcast(message('ticker', market.symbol, tickerOf(market)));
+    }
+  }
+  publishBook(market);
+
+  setTimeout(() => step(market), randomBetween(UPDATE_INTERVAL));
+};
+
+markets.forEach(market => {
+  updateLiquidity(market);
+  market.published = { bids: topLevels(market, 'buy'), asks: topLevels(market, 'sell') };
+  step(market);
+});
+
+server.on('connection', socket => {
+  markets.forEach(market => {
+    socket.send(snapshotOf(market));
+    const ticker = tickerOf(market);
+    if (ticker) socket.send(message('ticker', market.symbol, ticker));
+  });
+
+  socket.on('message', raw => {
+    let request;
+    try {
+      request = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+
+    if (request.type === 'ping') {
+      socket.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
+    } else if (request.type === 'snapshot_request') {
+      const market = markets.find(({ symbol }) => symbol === request.symbol);
+      if (market) socket.send(snapshotOf(market));
+    }
+  });
+});
+
+console.log(`Mock market data server listening on ws://localhost:${PORT}`);
@@ -1,18 +1,41 @@
 import React, { useEffect } from 'react';
-import { Play, Pause, Activity } from 'lucide-react';
+import { Activity } from 'lucide-react';
 import { Analytics } from '@vercel/analytics/react';
 import { OrderBook } from './components/OrderBook';
 import { OrderEntryForm } from './components/OrderEntryForm';
 import { TradeHistory } from './components/TradeHistory';
 import { DepthChart } from './components/DepthChart';
+import { OrderOutcomeToast } from './components/OrderOutcomeToast';
+import { OpenOrders } from './components/OpenOrders';
+import { BalancesPanel } from './components/BalancesPanel';
+import { PositionsPanel } from './components/PositionsPanel';
+import { OrderHistory } from './components/OrderHistory';
+import { SymbolSelector } from './components/SymbolSelector';
+import { TickerBar } from './components/TickerBar';
+import { ScenarioSelector } from './components/ScenarioSelector';
+import { ReplayControls } from './components/ReplayControls';
+import { FeedHealthBanner } from './components/FeedHealthBanner';
+import { PauseControls } from './components/PauseControls';
 import { useExchangeStore } from './store/exchangeStore';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import type { ConnectionState } from './types';
+
+const CONNECTION_BADGES: Record<ConnectionState, { label: string; className: string }> = {
+  open: { label: 'Connected', className: 'bg-green-900/50 text-green-300 border border-green-700' },
+  connecting: { label: 'Connecting...', className: 'bg-yellow-900/50 text-yellow-300 border border-yellow-700' },
+  reconnecting: { label: 'Reconnecting...', className: 'bg-yellow-900/50 text-yellow-300 border border-yellow-700' },
+  closed: { label: 'Disconnected', className: 'bg-red-900/50 text-red-300 border border-red-700' },
+};
 
 const App: React.FC = () => {
   const { 
     isConnected, 
+    connectionState,
     isPaused, 
+    pendingUpdates,
     togglePause, 
+    stepUpdate,
+    cancelAllOrders,
     setOrderModalOpen,
     initializeSocket 
   } = useExchangeStore();
@@ -34,6 +57,17 @@ const App: React.FC = () => {
       key: ' ',
       action: togglePause,
       description: 'Toggle pause/resume'
+    },
+    {
+      key: 's',
+      action: stepUpdate,
+      description: 'Apply the next paused update'
+    },
+    {
+      key: 'c',
+      shiftKey: true,
+      action: () => cancelAllOrders(),
+      description: 'Cancel all open orders'
     }
   ]);
 
@@ -44,40 +78,40 @@ const App: React.FC = () => {
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
             <h1 className="text-2xl font-bold text-white">Mini Exchange</h1>
-            <div className={`flex items-center space-x-2 px-3 py-1 rounded-full text-sm ${
-              isConnected 
-                ? 'bg-green-900/50 text-green-300 border border-green-700' 
-                : 'bg-red-900/50 text-red-300 border border-red-700'
-            }`}>
+            <SymbolSelector />
+            <div
+              role="status"
+              className={`flex items-center space-x-2 px-3 py-1 rounded-full text-sm ${
+                CONNECTION_BADGES[connectionState].className
+              }`}
+            >
               <Activity size={16} />
-              <span>{isConnected ? 'Connected' : 'Disconnected'}</span>
+              <span>{CONNECTION_BADGES[connectionState].label}</span>
             </div>
           </div>
 
           <div className="flex items-center space-x-4">
+            <ScenarioSelector />
+            <ReplayControls />
+
             {/* WebSocket Controls */}
-            <button
-              onClick={togglePause}
-              className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors ${
-                isPaused
-                  ? 'bg-green-600 hover:bg-green-700 text-white'
-                  : 'bg-yellow-600 hover:bg-yellow-700 text-white'
-              }`}
-              title={isPaused ? 'Resume (Space)' : 'Pause (Space)'}
-            >
-              {isPaused ? <Play size={16} /> : <Pause size={16} />}
-              <span>{isPaused ? 'Resume' : 'Pause'}</span>
-            </button>
+            <PauseControls />
 
             <OrderEntryForm />
           </div>
         </div>
 
+        {/* Live ticker for the active symbol */}
+        <TickerBar className="mt-3" />
+        <FeedHealthBanner className="mt-3" />
+
         {/* Keyboard Shortcuts Info */}
         <div className="mt-3 pt-3 border-t border-slate-700">
           <div className="flex items-center space-x-6 text-sm text-gray-400">
             <div>Press <kbd className="px-2 py-1 bg-slate-800 rounded text-xs">N</kbd> to create new order</div>
             <div>Press <kbd className="px-2 py-1 bg-slate-800 rounded text-xs">Space</kbd> to pause/resume</div>
+            <div>Press <kbd className="px-2 py-1 bg-slate-800 rounded text-xs">S</kbd> to step while paused</div>
+            <div>Press <kbd className="px-2 py-1 bg-slate-800 rounded text-xs">Shift+C</kbd> to cancel all orders</div>
             <div>Press <kbd className="px-2 py-1 bg-slate-800 rounded text-xs">Esc</kbd> to close modals</div>
           </div>
         </div>
@@ -91,7 +125,7 @@ const App: React.FC = () => {
             <OrderBook className="h-[600px]" />
           </div>
 
-          {/* Middle Column - Depth Chart & Quick Stats */}
+          {/* Middle Column - Depth Chart, Quick Stats, Open Orders & Balances */}
           <div className="lg:col-span-1 space-y-6">
             <DepthChart className="h-80" />
             <div className="bg-slate-900 rounded-lg border border-slate-700 p-6">
@@ -113,17 +147,30 @@ const App: React.FC = () => {
                     {isPaused ? 'Debug' : 'Real-time'}
                   </div>
                 </div>
+                {isPaused && (
+                  <div>
+                    <div className="text-gray-400">Pending updates</div>
+                    <div className="text-yellow-400 font-medium font-mono">{pendingUpdates}</div>
+                  </div>
+                )}
               </div>
             </div>
+            <OpenOrders className="max-h-72" />
+            <BalancesPanel />
           </div>
 
-          {/* Right Column - Trade History */}
-          <div className="lg:col-span-1">
+          {/* Right Column - Trade History & Positions */}
+          <div className="lg:col-span-1 space-y-6">
             <TradeHistory className="h-[600px]" />
+            <PositionsPanel />
+            <OrderHistory />
           </div>
         </div>
       </main>
 
+      {/* Order submission feedback */}
+      <OrderOutcomeToast />
+
       {/* Performance Monitoring (Development) */}
       {process.env.NODE_ENV === 'development' && (
         <div className="fixed bottom-4 right-4 bg-slate-800 border border-slate-600 rounded-lg p-3 text-xs text-gray-400">
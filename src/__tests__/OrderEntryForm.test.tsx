@@ -3,6 +3,10 @@ import userEvent from '@testing-library/user-event';
 import { act } from 'react';
 import { OrderEntryForm } from '../components/OrderEntryForm';
 import { useExchangeStore } from '../store/exchangeStore';
+import { DEFAULT_INSTRUMENT } from '../lib/instrument';
+import { AccountLedger } from '../lib/accounts';
+import { SYMBOL_SPECS } from '../lib/markets';
+import { DEFAULT_FEE_SCHEDULE } from '../lib/fees';
 
 // Mock the store
 jest.mock('../store/exchangeStore', () => ({
@@ -26,6 +30,12 @@ describe('OrderEntryForm Integration', () => {
       midPrice: 100,
       spread: 1,
     },
+    instrument: DEFAULT_INSTRUMENT,
+    activeSymbol: 'BTC-USD',
+    symbols: SYMBOL_SPECS,
+    balances: new AccountLedger({ USD: 1000, BTC: 1 }).getBalances([]),
+    fills: [],
+    feeSchedule: DEFAULT_FEE_SCHEDULE,
     updateOrderForm: jest.fn(),
     setOrderModalOpen: jest.fn(),
     submitOrder: jest.fn(),
@@ -69,8 +79,8 @@ describe('OrderEntryForm Integration', () => {
     expect(sideButtons[0]).toHaveTextContent('Buy');
     expect(sideButtons[1]).toHaveTextContent('Sell');
     
-    expect(screen.getByLabelText(/price/i)).toBeInTheDocument();
-    expect(screen.getByLabelText(/quantity/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/^price$/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/^quantity$/i)).toBeInTheDocument();
   });
 
   test('should submit order with correct data', async () => {
@@ -146,8 +156,8 @@ describe('OrderEntryForm Integration', () => {
       render(<OrderEntryForm />);
     });
 
-    const priceInput = screen.getByLabelText(/price/i);
-    const quantityInput = screen.getByLabelText(/quantity/i);
+    const priceInput = screen.getByLabelText(/^price$/i);
+    const quantityInput = screen.getByLabelText(/^quantity$/i);
 
     await act(async () => {
       await user.type(priceInput, '100.50');
@@ -249,6 +259,247 @@ describe('OrderEntryForm Integration', () => {
 
     render(<OrderEntryForm />);
 
-    expect(screen.queryByLabelText(/price/i)).not.toBeInTheDocument();
+    expect(screen.queryByLabelText(/^price$/i)).not.toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  test('should select time in force for limit orders', async () => {
+    const user = userEvent.setup();
+    mockUseExchangeStore.mockReturnValue({
+      ...mockStore,
+      isOrderModalOpen: true,
+    });
+
+    await act(async () => {
+      render(<OrderEntryForm />);
+    });
+
+    await act(async () => {
+      await user.selectOptions(screen.getByLabelText(/time in force/i), 'ioc');
+    });
+
+    expect(mockStore.updateOrderForm).toHaveBeenCalledWith({ timeInForce: 'ioc' });
+  });
+
+  test('should require a future expiry for GTD orders', async () => {
+    const user = userEvent.setup();
+    mockUseExchangeStore.mockReturnValue({
+      ...mockStore,
+      isOrderModalOpen: true,
+      currentOrder: {
+        side: 'buy',
+        type: 'limit',
+        price: '100',
+        quantity: '1',
+        timeInForce: 'gtd',
+        expireTime: '',
+      },
+    });
+
+    await act(async () => {
+      render(<OrderEntryForm />);
+    });
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /place buy order/i }));
+    });
+
+    expect(screen.getByText(/expiry time must be in the future/i)).toBeInTheDocument();
+    expect(mockStore.submitOrder).not.toHaveBeenCalled();
+  });
+
+  test('should validate stop price against the last trade', async () => {
+    const user = userEvent.setup();
+    mockUseExchangeStore.mockReturnValue({
+      ...mockStore,
+      isOrderModalOpen: true,
+      trades: [{ id: 't1', price: 100, quantity: 1, side: 'buy', timestamp: Date.now() }],
+      currentOrder: {
+        side: 'buy',
+        type: 'stop',
+        price: '',
+        quantity: '1',
+        stopPrice: '95',
+      },
+    });
+
+    await act(async () => {
+      render(<OrderEntryForm />);
+    });
+
+    expect(screen.getByLabelText(/stop price/i)).toBeInTheDocument();
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /place buy order/i }));
+    });
+
+    expect(screen.getByText(/buy stop price must be above the last price/i)).toBeInTheDocument();
+    expect(mockStore.submitOrder).not.toHaveBeenCalled();
+  });
+
+  test('should reject off-tick prices and off-lot quantities', async () => {
+    const user = userEvent.setup();
+    mockUseExchangeStore.mockReturnValue({
+      ...mockStore,
+      isOrderModalOpen: true,
+      currentOrder: {
+        side: 'buy',
+        type: 'limit',
+        price: '100.005',
+        quantity: '0.00005',
+      },
+    });
+
+    await act(async () => {
+      render(<OrderEntryForm />);
+    });
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /place buy order/i }));
+    });
+
+    expect(screen.getByText(/price must be a multiple of the tick size 0.01/i)).toBeInTheDocument();
+    expect(screen.getByText(/quantity must be a multiple of the lot size 0.0001/i)).toBeInTheDocument();
+    expect(mockStore.submitOrder).not.toHaveBeenCalled();
+  });
+
+  test('should enforce the minimum order value', async () => {
+    const user = userEvent.setup();
+    mockUseExchangeStore.mockReturnValue({
+      ...mockStore,
+      isOrderModalOpen: true,
+      currentOrder: {
+        side: 'buy',
+        type: 'limit',
+        price: '0.5',
+        quantity: '1',
+      },
+    });
+
+    await act(async () => {
+      render(<OrderEntryForm />);
+    });
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /place buy order/i }));
+    });
+
+    expect(screen.getByText(/order value must be at least 1.00/i)).toBeInTheDocument();
+    expect(mockStore.submitOrder).not.toHaveBeenCalled();
+  });
+
+  test('should offer slippage protection for market orders', async () => {
+    const user = userEvent.setup();
+    mockUseExchangeStore.mockReturnValue({
+      ...mockStore,
+      isOrderModalOpen: true,
+      currentOrder: {
+        side: 'buy',
+        type: 'market',
+        price: '',
+        quantity: '1',
+        maxSlippageBps: '-5',
+        protectionPrice: '100.005',
+      },
+    });
+
+    await act(async () => {
+      render(<OrderEntryForm />);
+    });
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /place buy order/i }));
+    });
+
+    expect(screen.getByText(/max slippage cannot be negative/i)).toBeInTheDocument();
+    expect(mockStore.submitOrder).not.toHaveBeenCalled();
+  });
+
+  test('should reject a display quantity larger than the order', async () => {
+    const user = userEvent.setup();
+    mockUseExchangeStore.mockReturnValue({
+      ...mockStore,
+      isOrderModalOpen: true,
+      currentOrder: {
+        side: 'sell',
+        type: 'limit',
+        price: '100',
+        quantity: '1',
+        displayQuantity: '2',
+      },
+    });
+
+    await act(async () => {
+      render(<OrderEntryForm />);
+    });
+
+    expect(screen.getByLabelText(/display quantity/i)).toHaveValue(2);
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /place sell order/i }));
+    });
+
+    expect(
+      screen.getByText(/display quantity cannot be larger than the order quantity/i)
+    ).toBeInTheDocument();
+    expect(mockStore.submitOrder).not.toHaveBeenCalled();
+  });
+
+  test('should reject orders the available balance cannot cover', async () => {
+    const user = userEvent.setup();
+    mockUseExchangeStore.mockReturnValue({
+      ...mockStore,
+      isOrderModalOpen: true,
+      currentOrder: {
+        side: 'sell',
+        type: 'limit',
+        price: '100',
+        quantity: '2',
+      },
+    });
+
+    await act(async () => {
+      render(<OrderEntryForm />);
+    });
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /place sell order/i }));
+    });
+
+    expect(
+      screen.getByText('Insufficient BTC: the order needs 2.0000, 1.0000 available')
+    ).toBeInTheDocument();
+    expect(mockStore.submitOrder).not.toHaveBeenCalled();
+  });
+
+  test('should show the balance the order draws on', () => {
+    mockUseExchangeStore.mockReturnValue({
+      ...mockStore,
+      isOrderModalOpen: true,
+    });
+
+    render(<OrderEntryForm />);
+
+    expect(screen.getByText(/available: 1000.00 usd/i)).toBeInTheDocument();
+  });
+
+  test('should estimate the fee at the maker or taker rate', () => {
+    const renderLimitBuy = (price: string) => {
+      mockUseExchangeStore.mockReturnValue({
+        ...mockStore,
+        isOrderModalOpen: true,
+        currentOrder: { side: 'buy', type: 'limit', price, quantity: '2' },
+      });
+      return render(<OrderEntryForm />);
+    };
+
+    // Below the best ask the order rests and pays the maker rate
+    const { unmount } = renderLimitBuy('99');
+    expect(screen.getByText('Est. Fee (maker, 0.10%):')).toBeInTheDocument();
+    expect(screen.getByText('$0.20')).toBeInTheDocument();
+    unmount();
+
+    renderLimitBuy('101');
+    expect(screen.getByText('Est. Fee (taker, 0.20%):')).toBeInTheDocument();
+    expect(screen.getByText('$0.40')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,82 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { OrderHistory } from '../components/OrderHistory';
+import { useExchangeStore } from '../store/exchangeStore';
+import { SYMBOL_SPECS } from '../lib/markets';
+import type { Fill, OrderHistoryEntry } from '../types';
+
+jest.mock('../store/exchangeStore', () => ({
+  useExchangeStore: jest.fn(),
+}));
+
+const mockUseExchangeStore = useExchangeStore as jest.MockedFunction<typeof useExchangeStore>;
+
+const fill = (changes: Partial<Fill>): Fill => ({
+  id: 't1',
+  orderId: 'user_1',
+  symbol: 'BTC-USD',
+  side: 'buy',
+  price: 100,
+  quantity: 1,
+  fee: 0,
+  liquidity: 'taker',
+  timestamp: 0,
+  ...changes,
+});
+
+const entry = (changes: Partial<OrderHistoryEntry>): OrderHistoryEntry => ({
+  id: 'exec_1',
+  orderId: 'user_1',
+  symbol: 'BTC-USD',
+  execType: 'fill',
+  status: 'filled',
+  side: 'buy',
+  type: 'limit',
+  price: 100,
+  quantity: 1,
+  cumQuantity: 1,
+  leavesQuantity: 0,
+  avgPrice: 100,
+  timestamp: 0,
+  ...changes,
+});
+
+describe('OrderHistory', () => {
+  beforeEach(() => {
+    mockUseExchangeStore.mockReturnValue({
+      symbols: SYMBOL_SPECS,
+      fills: [
+        fill({}),
+        fill({ id: 't2', orderId: 'user_2', symbol: 'ETH-USD', side: 'sell', liquidity: 'maker' }),
+      ],
+      orderHistory: [
+        entry({}),
+        entry({ orderId: 'user_3', execType: 'cancelled', status: 'cancelled', cumQuantity: 0 }),
+      ],
+    });
+  });
+
+  test('should list every fill and narrow them by search terms', async () => {
+    const user = userEvent.setup();
+    render(<OrderHistory />);
+
+    expect(screen.getByText('Showing 2 of 2 fills')).toBeInTheDocument();
+    expect(screen.getByText('Maker')).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('Search my trades'), 'eth sell');
+    expect(screen.getByText('Showing 1 of 2 fills')).toBeInTheDocument();
+    expect(screen.getByText('SELL ETH-USD')).toBeInTheDocument();
+  });
+
+  test('should show the final status of each order', async () => {
+    const user = userEvent.setup();
+    render(<OrderHistory />);
+
+    await user.click(screen.getByRole('button', { name: 'Orders' }));
+    expect(screen.getByText('Cancelled')).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('Search my trades'), 'user_1');
+    expect(screen.getByText('Showing 1 of 2 orders')).toBeInTheDocument();
+    expect(screen.queryByText('Cancelled')).not.toBeInTheDocument();
+  });
+});
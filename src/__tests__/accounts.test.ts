@@ -0,0 +1,297 @@
+import {
+  AccountLedger,
+  checkFunds,
+  getReservation,
+  getSweepPrice,
+} from '../lib/accounts';
+import { SYMBOL_SPECS } from '../lib/markets';
+import { EngineHost } from '../lib/engineHost';
+import type { EngineMessage, EngineOrderResult, ExecutionReport, Order } from '../types';
+
+const BTC = SYMBOL_SPECS[0];
+
+const order = (changes: Partial<Order>): Order => ({
+  id: 'o1',
+  price: 100,
+  quantity: 2,
+  side: 'buy',
+  type: 'limit',
+  timestamp: 0,
+  ...changes,
+});
+
+const fill = (side: 'buy' | 'sell', lastPrice: number, lastQuantity: number): ExecutionReport => ({
+  id: 'exec_1',
+  orderId: 'o1',
+  execType: 'partial_fill',
+  status: 'partially_filled',
+  side,
+  type: 'limit',
+  price: lastPrice,
+  quantity: lastQuantity * 2,
+  cumQuantity: lastQuantity,
+  leavesQuantity: lastQuantity,
+  avgPrice: lastPrice,
+  lastPrice,
+  lastQuantity,
+  tradeId: 't1',
+  timestamp: 0,
+});
+
+describe('Reservations', () => {
+  test('should hold the base quantity of a sell and the quote cost of a buy', () => {
+    expect(getReservation(order({ side: 'sell' }), BTC)).toEqual({ asset: 'BTC', amount: 2 });
+    expect(getReservation(order({}), BTC)).toEqual({ asset: 'USD', amount: 200 });
+  });
+
+  test('should add the fee to buys but not to sells', () => {
+    expect(getReservation(order({}), BTC, 0, 0.002).amount).toBe(200.4);
+    expect(getReservation(order({ side: 'sell' }), BTC, 0, 0.002).amount).toBe(2);
+    // A rebate is only paid once the order fills, so it frees nothing up front
+    expect(getReservation(order({}), BTC, 0, -0.0001).amount).toBe(200);
+  });
+
+  test('should price market buys at the sweep and stop buys at their stop', () => {
+    const asks = [
+      { price: 101, quantity: 1, total: 1, count: 1 },
+      { price: 102, quantity: 5, total: 6, count: 2 },
+    ];
+    expect(getSweepPrice(asks, 3)).toBe(102);
+    expect(getSweepPrice(asks, 10)).toBe(102);
+    expect(getSweepPrice([], 1)).toBeUndefined();
+
+    const market = order({ type: 'market', price: 0 });
+    expect(getReservation(market, BTC, 102).amount).toBe(204);
+    expect(getReservation({ ...market, protectionPrice: 101.5 }, BTC, 102).amount).toBe(203);
+    expect(getReservation(order({ type: 'stop', stopPrice: 110 }), BTC).amount).toBe(220);
+  });
+
+  test('should explain a shortfall', () => {
+    const balances = new AccountLedger({ USD: 150 }).getBalances([]);
+
+    expect(checkFunds({ asset: 'USD', amount: 150 }, balances, SYMBOL_SPECS)).toBeNull();
+    expect(checkFunds({ asset: 'USD', amount: 200 }, balances, SYMBOL_SPECS)).toBe(
+      'Insufficient USD: the order needs 200.00, 150.00 available'
+    );
+    expect(checkFunds({ asset: 'ETH', amount: 1 }, balances, SYMBOL_SPECS)).toBe(
+      'Insufficient ETH: the order needs 1.000, 0.000 available'
+    );
+  });
+});
+
+describe('AccountLedger', () => {
+  test('should subtract reservations from what is available', () => {
+    const ledger = new AccountLedger({ USD: 1000, BTC: 1 });
+    const balances = ledger.getBalances([
+      { asset: 'USD', amount: 300 },
+      { asset: 'USD', amount: 200 },
+    ]);
+
+    expect(balances.USD).toEqual({ asset: 'USD', total: 1000, reserved: 500, available: 500 });
+    expect(balances.BTC).toEqual({ asset: 'BTC', total: 1, reserved: 0, available: 1 });
+  });
+
+  test('should settle both legs of a fill', () => {
+    const ledger = new AccountLedger({ USD: 1000, BTC: 1 });
+
+    ledger.settle(fill('buy', 100.1, 3), BTC);
+    expect(ledger.getBalances([]).USD.total).toBe(699.7);
+    expect(ledger.getBalances([]).BTC.total).toBe(4);
+
+    ledger.settle(fill('sell', 110, 0.5), BTC);
+    expect(ledger.getBalances([]).USD.total).toBe(754.7);
+    expect(ledger.getBalances([]).BTC.total).toBe(3.5);
+  });
+
+  test('should take fees from and pay rebates into the quote balance', () => {
+    const ledger = new AccountLedger({ USD: 1000, BTC: 1 });
+
+    ledger.settle({ ...fill('buy', 100, 1), fee: 0.2 }, BTC);
+    expect(ledger.getBalances([]).USD.total).toBe(899.8);
+
+    ledger.settle({ ...fill('sell', 100, 1), fee: -0.01 }, BTC);
+    expect(ledger.getBalances([]).USD.total).toBe(999.81);
+    expect(ledger.getBalances([]).BTC.total).toBe(1);
+  });
+
+  test('should ignore reports without a fill', () => {
+    const ledger = new AccountLedger({ USD: 1000 });
+    ledger.settle({ ...fill('buy', 100, 1), lastPrice: undefined, lastQuantity: undefined }, BTC);
+
+    expect(ledger.getBalances([]).USD.total).toBe(1000);
+  });
+});
+
+describe('Engine balances', () => {
+  const userOrder = (changes: Partial<Order>): Order =>
+    order({ id: 'user_1', accountId: 'user', symbol: 'BTC-USD', ...changes });
+
+  // Subscribing seeds every book; before that they are empty, so a test can lay out its own
+  const createHost = ({ emptyBooks = false } = {}) => {
+    const messages: EngineMessage[] = [];
+    const host = new EngineHost(message => messages.push(message));
+    host.handle({
+      id: 1,
+      request: { type: 'init', options: { seed: 3, scenario: 'calm', networkFaults: false } },
+    });
+    if (!emptyBooks) {
+      host.handle({ id: 2, request: { type: 'subscribe' } });
+    }
+
+    let nextId = 3;
+    const submit = (order: Order) => {
+      const id = nextId++;
+      host.handle({ id, request: { type: 'submitOrder', order } });
+      const response = messages.find(message => message.type === 'response' && message.id === id);
+      return (response as { result: EngineOrderResult }).result;
+    };
+    // Each offer comes from its own account, which starts with 1 BTC
+    const offer = (i: number, price: number) =>
+      submit(
+        userOrder({ id: `ask_${i}`, accountId: `seller_${i}`, side: 'sell', price, quantity: 1 })
+      );
+    return { host, messages, submit, offer };
+  };
+
+  test('should reject orders beyond the available balance', () => {
+    const { host, messages } = createHost();
+    const order = userOrder({ side: 'sell', price: 90000, quantity: 3 });
+    host.handle({ id: 3, request: { type: 'submitOrder', order } });
+
+    expect(messages[messages.length - 1]).toMatchObject({
+      type: 'response',
+      id: 3,
+      result: { status: 'rejected', reason: 'insufficient_funds', tradeCount: 0 },
+    });
+  });
+
+  const balanceUpdates = (messages: EngineMessage[]) =>
+    messages.flatMap(message => (message.type === 'balances' ? [message.balances] : []));
+
+  test('should settle fills once the matching is done', async () => {
+    const { host, messages } = createHost();
+    const order = userOrder({ type: 'market', price: 0, quantity: 0.1 });
+    host.handle({ id: 3, request: { type: 'submitOrder', order } });
+    expect(balanceUpdates(messages)).toHaveLength(0);
+
+    await Promise.resolve();
+    const response = messages.find(message => message.type === 'response' && message.id === 3);
+    const { filledQuantity, avgPrice } = (response as { result: EngineOrderResult }).result;
+    const [balances] = balanceUpdates(messages);
+    expect(filledQuantity).toBe(0.1);
+    expect(balances.BTC.total).toBe(1.1);
+    // The default schedule charges a new account 0.20% as a taker
+    expect(balances.USD.total).toBeCloseTo(100000 - 0.1 * avgPrice * 1.002, 6);
+    expect(balances.USD.reserved).toBe(0);
+  });
+
+  test('should price market buys from every level, past the published depth', () => {
+    const { submit, offer } = createHost({ emptyBooks: true });
+    // 20 cheap levels fill the published book; the 5 behind them cost far more
+    for (let i = 0; i < 25; i++) {
+      offer(i, i < 20 ? 1000 + i : 20000 + i);
+    }
+
+    const sweep = submit(userOrder({ id: 'sweep', type: 'market', price: 0, quantity: 22 }));
+    expect(sweep).toMatchObject({ status: 'rejected', reason: 'insufficient_funds' });
+
+    const affordable = submit(userOrder({ id: 'small', type: 'market', price: 0, quantity: 4 }));
+    expect(affordable).toMatchObject({ status: 'filled', filledQuantity: 4 });
+  });
+
+  const stopReports = (messages: EngineMessage[]) =>
+    messages.flatMap(message =>
+      message.type === 'execution' && message.report.orderId === 'stop' ? [message.report] : []
+    );
+
+  test('should fill a gapped stop buy at the market once it triggers', () => {
+    const { submit, offer, messages } = createHost({ emptyBooks: true });
+    [1000, 3000, 3100].forEach((price, i) => offer(i, price));
+
+    const stop = submit(
+      userOrder({ id: 'stop', type: 'stop', price: 0, stopPrice: 1500, quantity: 1 })
+    );
+    expect(stop.remainingOrder?.protectionPrice).toBeUndefined();
+
+    // Another buyer takes two offers, and the last price gaps from 1000 to 3000
+    const lift = submit(userOrder({ id: 'lift', accountId: 'buyer', price: 3000, quantity: 2 }));
+    expect(lift.tradeCount).toBe(3);
+    expect(stopReports(messages).pop()).toMatchObject({
+      execType: 'fill',
+      lastPrice: 3100,
+      cumQuantity: 1,
+    });
+  });
+
+  test('should cancel a triggered stop buy the account can no longer cover', () => {
+    const { submit, offer, messages } = createHost({ emptyBooks: true });
+    offer(0, 1000);
+    offer(1, 3000);
+    for (let i = 2; i < 32; i++) {
+      offer(i, 5000);
+    }
+
+    // 30 BTC held at the 1500 stop fit the balance; at 5000 they do not
+    submit(userOrder({ id: 'stop', type: 'stop', price: 0, stopPrice: 1500, quantity: 30 }));
+    submit(userOrder({ id: 'lift', accountId: 'buyer', price: 3000, quantity: 2 }));
+
+    expect(stopReports(messages).pop()).toMatchObject({
+      execType: 'cancelled',
+      reason: 'insufficient_funds',
+      cumQuantity: 0,
+    });
+  });
+
+  test('should list a waiting stop and release its funds when cancelled', async () => {
+    const { host, messages } = createHost();
+    const response = (id: number) =>
+      messages.find(message => message.type === 'response' && message.id === id);
+    const order = userOrder({ type: 'stop', price: 0, stopPrice: 200000, quantity: 0.1 });
+    host.handle({ id: 3, request: { type: 'submitOrder', order } });
+    await Promise.resolve();
+    expect(response(3)).toMatchObject({
+      result: { status: 'new', openOrders: [{ id: 'user_1', type: 'stop' }] },
+    });
+    expect(balanceUpdates(messages).pop()?.USD.reserved).toBeGreaterThan(0);
+
+    host.handle({
+      id: 4,
+      request: { type: 'cancelOrder', symbol: 'BTC-USD', accountId: 'user', orderId: 'user_1' },
+    });
+    await Promise.resolve();
+    expect(response(4)).toMatchObject({ result: { cancelledCount: 1, openOrders: [] } });
+    expect(balanceUpdates(messages).pop()?.USD.reserved).toBe(0);
+  });
+
+  test('should reserve funds and fees for resting orders and follow amendments', async () => {
+    const { host, messages } = createHost();
+    const order = userOrder({ price: 1000, quantity: 0.5 });
+    host.handle({ id: 3, request: { type: 'submitOrder', order } });
+    await Promise.resolve();
+    expect(balanceUpdates(messages).pop()?.USD).toMatchObject({ reserved: 501, available: 99499 });
+
+    // Raising the order past what is left is refused, and the original stays
+    const amend = (id: number, quantity: number) =>
+      host.handle({
+        id,
+        request: {
+          type: 'amendOrder',
+          symbol: 'BTC-USD',
+          orderId: 'user_1',
+          changes: { quantity },
+        },
+      });
+    amend(4, 200);
+    expect(messages[messages.length - 1]).toMatchObject({
+      id: 4,
+      result: { status: 'rejected', reason: 'insufficient_funds' },
+    });
+
+    amend(5, 0.1);
+    await Promise.resolve();
+    expect(balanceUpdates(messages).pop()?.USD).toMatchObject({
+      reserved: 100.2,
+      available: 99899.8,
+    });
+  });
+});
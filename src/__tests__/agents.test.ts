@@ -0,0 +1,164 @@
+import {
+  DEFAULT_AGENTS,
+  MarketMaker,
+  MomentumTrader,
+  NoiseTrader,
+  TradingAgent,
+} from '../lib/agents';
+import type { AgentContext } from '../lib/agents';
+import { FakeSocket } from '../lib/fakeSocket';
+import { OrderMatcher } from '../lib/orderMatcher';
+import { DEFAULT_INSTRUMENT } from '../lib/instrument';
+import { createRandom } from '../lib/random';
+import type { Order } from '../types';
+
+const FAIR_VALUE = 50000;
+
+describe('Trading agents', () => {
+  let matcher: OrderMatcher;
+  let agents: TradingAgent[];
+  let orderSequence: number;
+
+  const createContext = (overrides: Partial<AgentContext> = {}): AgentContext => ({
+    matcher,
+    random: createRandom(1),
+    instrument: DEFAULT_INSTRUMENT,
+    fairValue: FAIR_VALUE,
+    spreadRange: [0.001, 0.001],
+    quotesPerSide: 3,
+    typicalQuantity: 1,
+    step: 0,
+    createOrder: (accountId, side, type, price = 0) => ({
+      id: `agent_order_${orderSequence++}`,
+      price,
+      quantity: 1,
+      side,
+      type,
+      timestamp: Date.now(),
+      accountId,
+    }),
+    ...overrides,
+  });
+
+  const addOrder = (order: Partial<Order>) =>
+    matcher.addOrder({
+      id: `order_${orderSequence++}`,
+      price: 0,
+      quantity: 1,
+      side: 'buy',
+      type: 'limit',
+      timestamp: Date.now(),
+      accountId: 'user',
+      ...order,
+    });
+
+  // Agents learn about their orders the way FakeSocket wires them up
+  const register = <T extends TradingAgent>(agent: T): T => {
+    agents.push(agent);
+    return agent;
+  };
+
+  beforeEach(() => {
+    matcher = new OrderMatcher();
+    agents = [];
+    orderSequence = 0;
+    matcher.subscribe(report => {
+      agents.find(agent => agent.accountId === report.accountId)?.onExecutionReport(report);
+    });
+  });
+
+  test('market makers should quote both sides around the fair value', () => {
+    const maker = register(new MarketMaker('sim-maker-1', DEFAULT_AGENTS.marketMakers));
+    maker.act(createContext());
+
+    const { bids, asks } = matcher.getOrderBook();
+    expect(maker.getOpenOrderCount()).toBe(6);
+    expect(bids.every(level => level.price < FAIR_VALUE)).toBe(true);
+    expect(asks.every(level => level.price > FAIR_VALUE)).toBe(true);
+  });
+
+  test('market makers should pull quotes the fair value has moved through', () => {
+    const maker = register(
+      new MarketMaker('sim-maker-1', { ...DEFAULT_AGENTS.marketMakers, cancelProbability: 0 })
+    );
+    maker.act(createContext());
+    maker.act(createContext({ fairValue: FAIR_VALUE * 1.01 }));
+
+    const { bids, asks } = matcher.getOrderBook();
+    expect(asks.every(level => level.price > FAIR_VALUE * 1.01)).toBe(true);
+    expect(bids).toHaveLength(3);
+  });
+
+  test('market makers should stop buying at their inventory limit', () => {
+    const params = { ...DEFAULT_AGENTS.marketMakers, cancelProbability: 0, maxInventory: 2 };
+    const maker = register(new MarketMaker('sim-maker-1', params));
+    maker.act(createContext());
+
+    addOrder({ side: 'sell', type: 'market', quantity: 2 });
+    expect(maker.getPosition()).toBe(2);
+
+    maker.act(createContext());
+    expect(matcher.getOrderBook().bids.reduce((sum, level) => sum + level.count, 0)).toBe(1);
+  });
+
+  test('momentum traders should buy into a rising market', () => {
+    const params = { ...DEFAULT_AGENTS.momentumTraders, lookback: 3, activity: 1 };
+    const trader = register(new MomentumTrader('sim-momentum-1', params));
+
+    [50000, 50100, 50200].forEach(price => {
+      addOrder({ side: 'sell', price, accountId: 'seller' });
+      addOrder({ side: 'buy', price });
+    });
+    addOrder({ side: 'sell', price: 50300, accountId: 'seller' });
+
+    const trades = trader.act(createContext());
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ side: 'buy', price: 50300 });
+    expect(trader.getPosition()).toBe(1);
+  });
+
+  test('noise traders should cancel limit orders that outlive them', () => {
+    const params = {
+      ...DEFAULT_AGENTS.noiseTraders,
+      activity: 1,
+      marketOrderProbability: 0,
+      orderLifetime: 2,
+    };
+    const trader = register(new NoiseTrader('sim-noise-1', params));
+
+    trader.act(createContext({ step: 0 }));
+    expect(trader.getOpenOrderCount()).toBe(1);
+
+    trader.act(createContext({ step: 2, random: () => 0.99 }));
+    expect(matcher.getOrders().map(order => order.id)).not.toContain('agent_order_0');
+  });
+});
+
+describe('Agent-based simulation', () => {
+  test('should trade only between agents, so positions net to zero', () => {
+    jest.useFakeTimers();
+    const feed = new FakeSocket({ seed: 21 });
+    const unsubscribe = feed.subscribe(() => {});
+    jest.advanceTimersByTime(30000);
+    unsubscribe();
+    jest.useRealTimers();
+
+    const agents = feed.getAgents();
+    const kinds = new Set(agents.map(agent => agent.kind));
+    const net = agents.reduce((sum, agent) => sum + agent.getPosition(), 0);
+
+    expect(kinds).toEqual(new Set(['maker', 'momentum', 'noise']));
+    expect(agents.some(agent => agent.getPosition() !== 0)).toBe(true);
+    expect(net).toBeCloseTo(0, 6);
+  });
+
+  test('should replace the population when reconfigured', () => {
+    const feed = new FakeSocket({ seed: 4 });
+    feed.updateConfig({
+      agents: { ...DEFAULT_AGENTS, marketMakers: { ...DEFAULT_AGENTS.marketMakers, count: 1 } },
+    });
+
+    expect(feed.getAgents().filter(agent => agent.kind === 'maker')).toHaveLength(1);
+    expect(feed.getAgents().map(agent => agent.accountId)).toContain('sim-noise-4');
+  });
+});
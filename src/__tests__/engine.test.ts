@@ -0,0 +1,188 @@
+import { EngineClient, createInThreadChannel } from '../lib/engineClient';
+import type { EngineChannel } from '../lib/engineClient';
+import { EngineHost } from '../lib/engineHost';
+import { useExchangeStore, USER_ACCOUNT_ID } from '../store/exchangeStore';
+import type {
+  BookDelta,
+  BookSnapshot,
+  EngineMessage,
+  MarketRegistryOptions,
+  Order,
+  WebSocketMessage,
+} from '../types';
+
+const OPTIONS: MarketRegistryOptions = { seed: 5, scenario: 'calm', networkFaults: false };
+
+// Passes messages the way postMessage does: copied, and later
+const createAsyncChannel = (): EngineChannel => {
+  let deliver: (message: EngineMessage) => void = () => {};
+  const host = new EngineHost(message => {
+    const copy = JSON.parse(JSON.stringify(message));
+    setTimeout(() => deliver(copy), 0);
+  });
+
+  return {
+    send: envelope => {
+      const copy = JSON.parse(JSON.stringify(envelope));
+      setTimeout(() => host.handle(copy), 0);
+    },
+    onMessage: listener => {
+      deliver = listener;
+    },
+  };
+};
+
+const buyOrder = (id: string, price: number): Order => ({
+  id,
+  price,
+  quantity: 0.5,
+  side: 'buy',
+  type: 'limit',
+  timestamp: Date.now(),
+  accountId: USER_ACCOUNT_ID,
+  symbol: 'BTC-USD',
+});
+
+describe('Engine protocol', () => {
+  test('should answer requests made before init with an error', () => {
+    const messages: EngineMessage[] = [];
+    new EngineHost(message => messages.push(message)).handle({ id: 1, request: { type: 'start' } });
+
+    expect(messages).toEqual([
+      { type: 'response', id: 1, error: 'Engine received start before init' },
+    ]);
+  });
+
+  test('should stream every symbol and report only user executions', async () => {
+    const engine = new EngineClient(createInThreadChannel(), OPTIONS);
+    const received: WebSocketMessage[] = [];
+    const executions: string[] = [];
+    engine.onExecutionReport(({ report }) => executions.push(report.accountId ?? ''));
+
+    const unsubscribe = engine.subscribe(message => received.push(message));
+    expect(engine.getState()).toBe('open');
+    expect(new Set(received.filter(m => m.type === 'snapshot').map(m => m.symbol))).toEqual(
+      new Set(['BTC-USD', 'ETH-USD', 'SOL-USD'])
+    );
+
+    const result = await engine.submitOrder(buyOrder('user_1', 40000));
+    expect(result).toMatchObject({ status: 'new', tradeCount: 0 });
+    expect(result.openOrders.map(order => order.id)).toEqual(['user_1']);
+    expect(executions).toEqual([USER_ACCOUNT_ID]);
+
+    unsubscribe();
+    expect(engine.getState()).toBe('closed');
+  });
+
+  test('should take a cancelled order off the published book straight away', async () => {
+    const engine = new EngineClient(createInThreadChannel(), OPTIONS);
+    const received: WebSocketMessage[] = [];
+    const unsubscribe = engine.subscribe(message => received.push(message));
+
+    const snapshot = received.find(m => m.type === 'snapshot' && m.symbol === 'BTC-USD');
+    const { bids, asks } = snapshot?.data as BookSnapshot;
+    // One tick above the best bid, so the order is the new top of the book
+    const price = Number((bids[0].price + 0.01).toFixed(2));
+    expect(price).toBeLessThan(asks[0].price);
+    await engine.submitOrder(buyOrder('user_3', price));
+
+    received.length = 0;
+    const result = await engine.cancelOrder('BTC-USD', USER_ACCOUNT_ID, 'user_3');
+
+    expect(result.cancelledCount).toBe(1);
+    const changes = received.flatMap(message =>
+      message.type === 'delta' && message.symbol === 'BTC-USD'
+        ? (message.data as BookDelta).changes
+        : []
+    );
+    expect(changes).toContainEqual(expect.objectContaining({ side: 'buy', price, quantity: 0 }));
+
+    unsubscribe();
+  });
+
+  test('should work across an asynchronous, copying channel', async () => {
+    jest.useFakeTimers();
+    const engine = new EngineClient(createAsyncChannel(), OPTIONS);
+    const received: WebSocketMessage[] = [];
+    const unsubscribe = engine.subscribe(message => received.push(message));
+
+    expect(received).toHaveLength(0);
+    jest.advanceTimersByTime(1);
+    jest.advanceTimersByTime(1);
+    expect(engine.getState()).toBe('open');
+
+    const snapshot = received.find(m => m.type === 'snapshot' && m.symbol === 'BTC-USD');
+    const [bestAsk] = (snapshot?.data as BookSnapshot).asks;
+
+    const pending = engine.submitOrder(buyOrder('user_2', bestAsk.price));
+    jest.advanceTimersByTime(1);
+    jest.advanceTimersByTime(1);
+    const result = await pending;
+    expect(result.filledQuantity).toBeGreaterThan(0);
+
+    unsubscribe();
+    jest.advanceTimersByTime(1);
+    jest.useRealTimers();
+  });
+});
+
+describe('Store on the engine', () => {
+  test('should fill in the order outcome when the engine answers', async () => {
+    const { submitOrder } = useExchangeStore.getState();
+    submitOrder({
+      ...useExchangeStore.getState().currentOrder,
+      side: 'buy',
+      type: 'limit',
+      price: '1000',
+      quantity: '0.5',
+    });
+    await Promise.resolve();
+
+    const { lastOrderOutcome, openOrders } = useExchangeStore.getState();
+    expect(lastOrderOutcome).toMatchObject({ status: 'new' });
+    expect(openOrders.map(order => order.id)).toEqual([lastOrderOutcome?.order.id]);
+  });
+
+  test('should cancel one order, then the rest by side', async () => {
+    const { submitOrder, cancelOrder, cancelAllOrders } = useExchangeStore.getState();
+    const place = async (side: 'buy' | 'sell', price: string) => {
+      submitOrder({
+        ...useExchangeStore.getState().currentOrder,
+        side,
+        type: 'limit',
+        price,
+        quantity: '0.01',
+      });
+      await Promise.resolve();
+    };
+    cancelAllOrders();
+    await Promise.resolve();
+
+    await place('buy', '1000');
+    await place('buy', '1001');
+    await place('sell', '900000');
+    const [first, second, sell] = useExchangeStore.getState().openOrders;
+    expect(useExchangeStore.getState().openOrders).toHaveLength(3);
+
+    // The second cancel finds the order gone, and says so instead of failing quietly
+    cancelOrder(first.id);
+    cancelOrder(first.id);
+    await Promise.resolve();
+    expect(useExchangeStore.getState().openOrders.map(order => order.id)).toEqual([
+      second.id,
+      sell.id,
+    ]);
+    expect(useExchangeStore.getState().lastOrderOutcome).toMatchObject({
+      order: { id: first.id },
+      reason: 'order_not_found',
+    });
+
+    cancelAllOrders('buy');
+    await Promise.resolve();
+    expect(useExchangeStore.getState().openOrders.map(order => order.id)).toEqual([sell.id]);
+
+    cancelAllOrders();
+    await Promise.resolve();
+    expect(useExchangeStore.getState().openOrders).toHaveLength(0);
+  });
+});
@@ -0,0 +1,321 @@
+import { useExchangeStore } from '../store/exchangeStore';
+import type {
+  ConnectionState,
+  ConnectionStateListener,
+  MarketDataListener,
+  MarketDataTransport,
+  WebSocketMessage,
+} from '../types';
+
+const SYMBOL = 'BTC-USD';
+
+const snapshot = (sequence: number): WebSocketMessage => ({
+  type: 'snapshot',
+  symbol: SYMBOL,
+  data: {
+    sequence,
+    bids: [{ price: 100, quantity: 1, total: 1, count: 1 }],
+    asks: [{ price: 101, quantity: 2, total: 2, count: 1 }],
+  },
+  timestamp: Date.now(),
+});
+
+const delta = (sequence: number, price: number, quantity: number): WebSocketMessage => ({
+  type: 'delta',
+  symbol: SYMBOL,
+  data: { sequence, changes: [{ side: 'buy', price, quantity, count: quantity > 0 ? 1 : 0 }] },
+  timestamp: Date.now(),
+});
+
+// Transport the tests drive by hand
+const createTestTransport = () => {
+  let state: ConnectionState = 'connecting';
+  const stateListeners = new Set<ConnectionStateListener>();
+  const listeners = new Set<MarketDataListener>();
+
+  const transport: MarketDataTransport = {
+    subscribe: jest.fn((listener: MarketDataListener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }),
+    onStateChange: listener => {
+      stateListeners.add(listener);
+      return () => stateListeners.delete(listener);
+    },
+    getState: () => state,
+    requestSnapshot: jest.fn(),
+    start: jest.fn(),
+    stop: jest.fn(),
+  };
+  const setState = (next: ConnectionState) => {
+    state = next;
+    stateListeners.forEach(listener => listener(next));
+  };
+  const emit = (message: WebSocketMessage) => listeners.forEach(listener => listener(message));
+
+  return { transport, setState, emit };
+};
+
+describe('Book sequencing', () => {
+  let requestSnapshot: jest.Mock;
+  let disconnect: () => void;
+
+  beforeEach(() => {
+    const { transport } = createTestTransport();
+    requestSnapshot = transport.requestSnapshot as jest.Mock;
+    disconnect = useExchangeStore.getState().initializeSocket(transport);
+    useExchangeStore.getState().handleSocketMessage(snapshot(10));
+  });
+
+  afterEach(() => {
+    disconnect();
+  });
+
+  test('should apply consecutive deltas to the snapshot', () => {
+    const { handleSocketMessage } = useExchangeStore.getState();
+    handleSocketMessage(delta(11, 99.5, 3));
+    handleSocketMessage(delta(12, 100, 0));
+
+    const { orderBook, bookSequences } = useExchangeStore.getState();
+    expect(orderBook.bids).toEqual([{ price: 99.5, quantity: 3, total: 3, count: 1 }]);
+    expect(orderBook.spread).toBe(1.5);
+    expect(bookSequences[SYMBOL]).toBe(12);
+    expect(requestSnapshot).not.toHaveBeenCalled();
+  });
+
+  test('should ignore duplicate and stale deltas', () => {
+    const { handleSocketMessage } = useExchangeStore.getState();
+    handleSocketMessage(delta(11, 99.5, 3));
+    handleSocketMessage(delta(11, 99.5, 5));
+    handleSocketMessage(delta(9, 98, 1));
+
+    const { orderBook } = useExchangeStore.getState();
+    expect(orderBook.bids.map(level => level.quantity)).toEqual([1, 3]);
+    expect(requestSnapshot).not.toHaveBeenCalled();
+  });
+
+  test('should request a snapshot on a sequence gap and resync from it', () => {
+    const { handleSocketMessage } = useExchangeStore.getState();
+    handleSocketMessage(delta(12, 99.5, 3));
+
+    expect(requestSnapshot).toHaveBeenCalledWith(SYMBOL);
+    expect(useExchangeStore.getState().bookSequences[SYMBOL]).toBeUndefined();
+    expect(useExchangeStore.getState().orderBook.bids).toHaveLength(1);
+
+    handleSocketMessage(snapshot(12));
+    handleSocketMessage(delta(13, 99.5, 3));
+
+    expect(useExchangeStore.getState().bookSequences[SYMBOL]).toBe(13);
+    expect(useExchangeStore.getState().orderBook.bids).toHaveLength(2);
+  });
+});
+
+describe('Ticker', () => {
+  test('should keep the ticker per symbol and mirror the active one', () => {
+    const ticker = {
+      symbol: 'ETH-USD',
+      lastPrice: 3010,
+      priceChange: 10,
+      priceChangePercent: 0.33,
+      volume24h: 12.5,
+      high24h: 3020,
+      low24h: 2990,
+    };
+    const { handleSocketMessage, setActiveSymbol } = useExchangeStore.getState();
+    handleSocketMessage({ type: 'ticker', symbol: 'ETH-USD', data: ticker, timestamp: Date.now() });
+
+    expect(useExchangeStore.getState().markets['ETH-USD'].ticker).toEqual(ticker);
+    expect(useExchangeStore.getState().ticker).toBeNull();
+
+    setActiveSymbol('ETH-USD');
+    expect(useExchangeStore.getState().ticker).toEqual(ticker);
+    setActiveSymbol(SYMBOL);
+  });
+});
+
+describe('Connection state', () => {
+  test('should follow the transport state', () => {
+    const { transport, setState } = createTestTransport();
+    const disconnect = useExchangeStore.getState().initializeSocket(transport);
+
+    expect(useExchangeStore.getState().connectionState).toBe('connecting');
+    expect(useExchangeStore.getState().isConnected).toBe(false);
+
+    setState('open');
+    expect(useExchangeStore.getState().isConnected).toBe(true);
+
+    setState('reconnecting');
+    expect(useExchangeStore.getState().connectionState).toBe('reconnecting');
+    expect(useExchangeStore.getState().isConnected).toBe(false);
+
+    disconnect();
+    expect(useExchangeStore.getState().connectionState).toBe('closed');
+  });
+
+});
+
+describe('Pause buffering', () => {
+  let emit: (message: WebSocketMessage) => void;
+  let requestSnapshot: jest.Mock;
+  let disconnect: () => void;
+
+  const bidQuantity = () => useExchangeStore.getState().markets[SYMBOL].orderBook.bids[0]?.quantity;
+
+  beforeEach(() => {
+    const testTransport = createTestTransport();
+    emit = testTransport.emit;
+    requestSnapshot = testTransport.transport.requestSnapshot as jest.Mock;
+    disconnect = useExchangeStore.getState().initializeSocket(testTransport.transport);
+    emit(snapshot(1));
+    useExchangeStore.getState().togglePause();
+  });
+
+  afterEach(() => {
+    if (useExchangeStore.getState().isPaused) {
+      useExchangeStore.getState().resume();
+    }
+    disconnect();
+  });
+
+  test('should hold messages while paused and step through them one at a time', () => {
+    emit(delta(2, 100, 3));
+    emit(delta(3, 100, 5));
+    expect(useExchangeStore.getState().pendingUpdates).toBe(2);
+    expect(bidQuantity()).toBe(1);
+
+    useExchangeStore.getState().stepUpdate();
+    expect(bidQuantity()).toBe(3);
+    expect(useExchangeStore.getState().pendingUpdates).toBe(1);
+
+    useExchangeStore.getState().stepUpdate();
+    expect(bidQuantity()).toBe(5);
+    expect(useExchangeStore.getState().bookSequences[SYMBOL]).toBe(3);
+  });
+
+  test('should apply every held message on resume', () => {
+    emit(delta(2, 100, 3));
+    emit(delta(3, 100, 5));
+
+    useExchangeStore.getState().togglePause();
+    expect(useExchangeStore.getState().isPaused).toBe(false);
+    expect(useExchangeStore.getState().pendingUpdates).toBe(0);
+    expect(bidQuantity()).toBe(5);
+  });
+
+  test('should skip held messages and resync from snapshots when fast-forwarding', () => {
+    emit(delta(2, 100, 3));
+    requestSnapshot.mockClear();
+
+    useExchangeStore.getState().resume('fast-forward');
+    expect(bidQuantity()).toBe(1);
+    expect(useExchangeStore.getState().bookSequences[SYMBOL]).toBeUndefined();
+    expect(requestSnapshot).toHaveBeenCalledWith(SYMBOL);
+
+    emit(snapshot(7));
+    expect(useExchangeStore.getState().bookSequences[SYMBOL]).toBe(7);
+  });
+
+  test('should drop the oldest messages once the buffer is full', () => {
+    for (let sequence = 2; sequence <= 5002; sequence++) {
+      emit(delta(sequence, 100, 2));
+    }
+    expect(useExchangeStore.getState().pendingUpdates).toBe(5000);
+    expect(useExchangeStore.getState().droppedUpdates).toBe(1);
+
+    // Delta 2 went, so the first step finds a gap and asks for a snapshot
+    useExchangeStore.getState().stepUpdate();
+    expect(requestSnapshot).toHaveBeenCalledWith(SYMBOL);
+    expect(useExchangeStore.getState().bookSequences[SYMBOL]).toBeUndefined();
+  });
+});
+
+describe('Feed health', () => {
+  const trade = (id: string, timestamp: number): WebSocketMessage => ({
+    type: 'trade',
+    symbol: SYMBOL,
+    data: { id, price: 100, quantity: 1, side: 'buy', timestamp },
+    timestamp,
+  });
+
+  let disconnect: () => void;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    disconnect = useExchangeStore.getState().initializeSocket(createTestTransport().transport);
+    useExchangeStore.getState().handleSocketMessage(snapshot(10));
+  });
+
+  afterEach(() => {
+    disconnect();
+    jest.useRealTimers();
+  });
+
+  test('should count duplicate, stale and missing deltas', () => {
+    const { handleSocketMessage, feedHealth } = useExchangeStore.getState();
+    const before = feedHealth[SYMBOL];
+    handleSocketMessage(delta(11, 99.5, 3));
+    handleSocketMessage(delta(11, 99.5, 3));
+    handleSocketMessage(delta(10, 99.5, 3));
+    handleSocketMessage(snapshot(9));
+    handleSocketMessage(delta(13, 99.5, 3));
+
+    expect(useExchangeStore.getState().feedHealth[SYMBOL]).toMatchObject({
+      gaps: before.gaps + 1,
+      duplicates: before.duplicates + 1,
+      stale: before.stale + 2,
+      isDegraded: true,
+    });
+  });
+
+  test('should drop repeated trades and file late ones in time order', () => {
+    const { handleSocketMessage } = useExchangeStore.getState();
+    useExchangeStore.getState().clearTrades();
+    handleSocketMessage(trade('a', 1000));
+    handleSocketMessage(trade('c', 3000));
+    handleSocketMessage(trade('a', 1000));
+    handleSocketMessage(trade('b', 2000));
+
+    expect(useExchangeStore.getState().trades.map(t => t.id)).toEqual(['c', 'b', 'a']);
+    expect(useExchangeStore.getState().feedHealth[SYMBOL].duplicates).toBeGreaterThan(0);
+  });
+
+  test('should treat trades without fees as free', () => {
+    useExchangeStore.getState().clearTrades();
+    useExchangeStore.getState().handleSocketMessage(trade('a', 1000));
+
+    expect(useExchangeStore.getState().trades[0]).toMatchObject({ makerFee: 0, takerFee: 0 });
+  });
+
+  test('should ignore a ticker older than the one shown', () => {
+    const ticker = (lastPrice: number, timestamp: number): WebSocketMessage => ({
+      type: 'ticker',
+      symbol: SYMBOL,
+      data: {
+        symbol: SYMBOL,
+        lastPrice,
+        priceChange: 0,
+        priceChangePercent: 0,
+        volume24h: 1,
+        high24h: lastPrice,
+        low24h: lastPrice,
+      },
+      timestamp,
+    });
+    const now = Date.now();
+    const { handleSocketMessage } = useExchangeStore.getState();
+    handleSocketMessage(ticker(101, now));
+    handleSocketMessage(ticker(100, now - 500));
+
+    expect(useExchangeStore.getState().ticker?.lastPrice).toBe(101);
+  });
+
+  test('should recover after a quiet spell with the book in sync', () => {
+    const { handleSocketMessage } = useExchangeStore.getState();
+    handleSocketMessage(delta(10, 99.5, 3));
+    expect(useExchangeStore.getState().feedHealth[SYMBOL].isDegraded).toBe(true);
+
+    jest.advanceTimersByTime(10000);
+    handleSocketMessage(delta(11, 99.5, 3));
+    expect(useExchangeStore.getState().feedHealth[SYMBOL].isDegraded).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+import { FaultInjector, BAD_NETWORK, NO_FAULTS } from '../lib/faults';
+import { FakeSocket } from '../lib/fakeSocket';
+import { createRandom } from '../lib/random';
+import { useExchangeStore } from '../store/exchangeStore';
+import type { FaultConfig, Trade, WebSocketMessage } from '../types';
+
+const message = (id: number): WebSocketMessage => ({
+  type: 'trade',
+  symbol: 'BTC-USD',
+  data: { id: `t${id}`, price: 100, quantity: 1, side: 'buy', timestamp: id },
+  timestamp: id,
+});
+
+describe('FaultInjector', () => {
+  let received: string[];
+  const listener = () => {};
+
+  const createInjector = (faults: Partial<FaultConfig>) =>
+    new FaultInjector({ ...NO_FAULTS, ...faults }, createRandom(1), (_, m) =>
+      received.push((m.data as Trade).id)
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    received = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should deliver straight away on a perfect network', () => {
+    const injector = createInjector({});
+    [1, 2, 3].forEach(id => injector.transmit(listener, message(id)));
+    expect(received).toEqual(['t1', 't2', 't3']);
+  });
+
+  test('should drop, duplicate and reorder messages', () => {
+    createInjector({ dropRate: 1 }).transmit(listener, message(1));
+    expect(received).toEqual([]);
+
+    createInjector({ duplicateRate: 1 }).transmit(listener, message(1));
+    expect(received).toEqual(['t1', 't1']);
+
+    received = [];
+    const reordering = createInjector({ reorderRate: 1 });
+    [1, 2, 3, 4].forEach(id => reordering.transmit(listener, message(id)));
+    expect(received).toEqual(['t2', 't1', 't4', 't3']);
+  });
+
+  test('should delay delivery by the latency and lose it on reset', () => {
+    const injector = createInjector({ latency: [100, 100] });
+    injector.transmit(listener, message(1));
+    jest.advanceTimersByTime(99);
+    expect(received).toEqual([]);
+    jest.advanceTimersByTime(1);
+    expect(received).toEqual(['t1']);
+
+    injector.transmit(listener, message(2));
+    injector.reset();
+    jest.advanceTimersByTime(1000);
+    expect(received).toEqual(['t1']);
+  });
+});
+
+describe('FakeSocket faults', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should leave the market itself unchanged', () => {
+    const tradeIds = (faults: FaultConfig) => {
+      const ids: string[] = [];
+      const feed = new FakeSocket({ seed: 8, faults });
+      const unsubscribe = feed.subscribe(m => {
+        if (m.type === 'trade') ids.push((m.data as Trade).id);
+      });
+      jest.advanceTimersByTime(20000);
+      unsubscribe();
+      return ids;
+    };
+
+    const perfect = tradeIds(NO_FAULTS);
+    expect(perfect.length).toBeGreaterThan(0);
+    expect(new Set(tradeIds({ ...NO_FAULTS, latency: [10, 300] }))).toEqual(new Set(perfect));
+  });
+
+  test('should go quiet while disconnected and resend the book on reconnect', () => {
+    const faults: FaultConfig = { ...NO_FAULTS, disconnectRate: 1, disconnectDuration: [2000, 2000] };
+    const feed = new FakeSocket({ seed: 3, updateInterval: [100, 100], faults });
+    const received: WebSocketMessage[] = [];
+    const states: string[] = [];
+    feed.onStateChange(state => states.push(state));
+    feed.subscribe(m => received.push(m));
+
+    jest.advanceTimersByTime(100);
+    expect(feed.getState()).toBe('reconnecting');
+    received.length = 0;
+
+    jest.advanceTimersByTime(1900);
+    expect(received).toHaveLength(0);
+
+    feed.updateConfig({ faults: NO_FAULTS });
+    jest.advanceTimersByTime(100);
+    expect(feed.getState()).toBe('open');
+    expect(states).toEqual(['open', 'reconnecting', 'open']);
+    expect(received[0].type).toBe('snapshot');
+  });
+});
+
+describe('Store on a bad network', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should end up showing the live book once the network recovers', () => {
+    const feed = new FakeSocket({ symbol: 'BTC-USD', seed: 12, faults: BAD_NETWORK });
+    const disconnect = useExchangeStore.getState().initializeSocket(feed);
+    jest.advanceTimersByTime(60000);
+
+    const health = useExchangeStore.getState().feedHealth['BTC-USD'];
+    expect(health.gaps + health.duplicates + health.stale).toBeGreaterThan(0);
+
+    // Once faults stop, the next snapshot or delta brings the book back in line
+    feed.updateConfig({ faults: NO_FAULTS });
+    jest.advanceTimersByTime(5000);
+    feed.requestSnapshot();
+
+    const published: WebSocketMessage[] = [];
+    const unsubscribe = feed.subscribe(m => published.push(m));
+    const { bids, asks } = published[0].data as { bids: unknown[]; asks: unknown[] };
+    expect(useExchangeStore.getState().orderBook.bids).toEqual(bids);
+    expect(useExchangeStore.getState().orderBook.asks).toEqual(asks);
+
+    const trades = useExchangeStore.getState().trades;
+    expect(new Set(trades.map(trade => trade.id)).size).toBe(trades.length);
+    const isNewestFirst = trades.every(
+      (trade, i) => i === 0 || trade.timestamp <= trades[i - 1].timestamp
+    );
+    expect(isNewestFirst).toBe(true);
+
+    unsubscribe();
+    disconnect();
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  DEFAULT_FEE_SCHEDULE,
+  FeeCalculator,
+  getFee,
+  getFeeTier,
+  getFillTier,
+  getFillVolume,
+} from '../lib/fees';
+import { OrderMatcher } from '../lib/orderMatcher';
+import { DEFAULT_INSTRUMENT, toNotional } from '../lib/instrument';
+import type { FeeSchedule, Fill } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY_MS;
+
+const schedule: FeeSchedule = {
+  tiers: [
+    { minVolume: 0, makerRate: 0.001, takerRate: 0.002 },
+    { minVolume: 1000, makerRate: -0.0001, takerRate: 0.001 },
+  ],
+  volumeWindowDays: 30,
+};
+
+describe('Fee tiers', () => {
+  test('should pick the best tier the volume reaches', () => {
+    expect(getFeeTier(schedule, 0)).toBe(schedule.tiers[0]);
+    expect(getFeeTier(schedule, 999.99)).toBe(schedule.tiers[0]);
+    expect(getFeeTier(schedule, 1000)).toBe(schedule.tiers[1]);
+    expect(getFeeTier(DEFAULT_FEE_SCHEDULE, 5e7).makerRate).toBeLessThan(0);
+  });
+
+  test('should work fees out in whole ticks and lots, without float dust', () => {
+    expect(toNotional(30001, 3, DEFAULT_INSTRUMENT)).toBe(0.090003);
+    expect(getFee(0.1 * 3, 0.5, DEFAULT_INSTRUMENT)).toBe(0.15);
+  });
+
+  test('should count only fills inside the rolling window', () => {
+    const fill = (timestamp: number): Fill => ({
+      id: `t${timestamp}`,
+      orderId: 'o1',
+      symbol: 'BTC-USD',
+      side: 'buy',
+      price: 100,
+      quantity: 6,
+      fee: 0,
+      liquidity: 'taker',
+      timestamp,
+    });
+    const fills = [fill(NOW), fill(NOW - 29 * DAY_MS), fill(NOW - 31 * DAY_MS)];
+
+    expect(getFillVolume(fills, schedule, NOW)).toBe(1200);
+    expect(getFillTier(fills.slice(0, 1), schedule, NOW)).toBe(schedule.tiers[0]);
+    expect(getFillTier(fills, schedule, NOW)).toBe(schedule.tiers[1]);
+  });
+});
+
+describe('FeeCalculator', () => {
+  test('should charge both sides at their own tiers, then count the volume', () => {
+    const fees = new FeeCalculator(schedule);
+    fees.addVolume('maker', 2000, NOW);
+
+    const charge = () => fees.chargeTrade('maker', 'taker', 500, NOW, DEFAULT_INSTRUMENT);
+
+    expect(charge()).toEqual({ makerFee: -0.05, takerFee: 1 });
+    expect(fees.getVolume('taker', NOW)).toBe(500);
+    expect(charge()).toEqual({ makerFee: -0.05, takerFee: 1 });
+    // The taker reached the second tier with the last trade
+    expect(charge().takerFee).toBe(0.5);
+  });
+
+  test('should let volume age out of the window', () => {
+    const fees = new FeeCalculator(schedule);
+    fees.addVolume('user', 2000, NOW);
+
+    expect(fees.getTier('user', NOW + 29 * DAY_MS)).toBe(schedule.tiers[1]);
+    expect(fees.getVolume('user', NOW + 30 * DAY_MS)).toBe(0);
+    expect(fees.getTier(undefined, NOW)).toBe(schedule.tiers[0]);
+  });
+
+  test('should put each side of a matched trade on the trade and its reports', () => {
+    const matcher = new OrderMatcher({ fees: new FeeCalculator(schedule) });
+    const reports: { orderId: string; fee?: number }[] = [];
+    matcher.subscribe(report => reports.push(report));
+
+    const order = { quantity: 2, type: 'limit' as const, timestamp: 0 };
+    matcher.addOrder({ ...order, id: 'ask', accountId: 'maker', side: 'sell', price: 100 });
+    const { trades } = matcher.addOrder({
+      ...order,
+      id: 'bid',
+      accountId: 'taker',
+      side: 'buy',
+      price: 100,
+    });
+
+    expect(trades[0]).toMatchObject({ makerFee: 0.2, takerFee: 0.4 });
+    expect(reports.filter(r => r.fee !== undefined)).toEqual([
+      expect.objectContaining({ orderId: 'bid', fee: 0.4 }),
+      expect.objectContaining({ orderId: 'ask', fee: 0.2 }),
+    ]);
+  });
+
+  test('should leave trades free without a fee model', () => {
+    const matcher = new OrderMatcher();
+    const order = { quantity: 1, type: 'limit' as const, price: 100, timestamp: 0 };
+    matcher.addOrder({ ...order, id: 'ask', side: 'sell' });
+    const { trades } = matcher.addOrder({ ...order, id: 'bid', side: 'buy' });
+
+    expect(trades[0]).toMatchObject({ makerFee: 0, takerFee: 0 });
+  });
+});
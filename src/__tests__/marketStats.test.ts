@@ -0,0 +1,57 @@
+import { MarketStats } from '../lib/marketStats';
+import { DEFAULT_INSTRUMENT } from '../lib/instrument';
+import type { Trade } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const trade = (price: number, quantity: number, timestamp: number): Trade => ({
+  id: `trade_${timestamp}`,
+  price,
+  quantity,
+  side: 'buy',
+  timestamp,
+});
+
+describe('MarketStats', () => {
+  let stats: MarketStats;
+
+  beforeEach(() => {
+    stats = new MarketStats('BTC-USD', DEFAULT_INSTRUMENT);
+  });
+
+  test('should report nothing before the first trade', () => {
+    expect(stats.getMarketData(0)).toBeNull();
+  });
+
+  test('should summarize trades in the window', () => {
+    stats.addTrade(trade(100, 0.1, 0));
+    stats.addTrade(trade(110.5, 0.2, HOUR_MS));
+    stats.addTrade(trade(95, 0.3, 2 * HOUR_MS));
+    stats.addTrade(trade(105, 0.4, 3 * HOUR_MS));
+
+    expect(stats.getMarketData(3 * HOUR_MS)).toEqual({
+      symbol: 'BTC-USD',
+      lastPrice: 105,
+      priceChange: 5,
+      priceChangePercent: 5,
+      volume24h: 1,
+      high24h: 110.5,
+      low24h: 95,
+    });
+  });
+
+  test('should drop trades older than 24 hours', () => {
+    stats.addTrade(trade(120, 1, 0));
+    stats.addTrade(trade(100, 0.5, HOUR_MS));
+    stats.addTrade(trade(98, 0.25, 2 * HOUR_MS));
+
+    expect(stats.getMarketData(24 * HOUR_MS + 1)).toMatchObject({
+      priceChange: -2,
+      priceChangePercent: -2,
+      volume24h: 0.75,
+      high24h: 100,
+      low24h: 98,
+    });
+    expect(stats.getMarketData(30 * HOUR_MS)).toBeNull();
+  });
+});
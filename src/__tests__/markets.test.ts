@@ -0,0 +1,157 @@
+import { MarketRegistry, SYMBOL_SPECS } from '../lib/markets';
+import { isSimulatedAccount } from '../lib/agents';
+import type { BookDelta, BookSnapshot, WebSocketMessage } from '../types';
+
+describe('MarketRegistry', () => {
+  let registry: MarketRegistry;
+
+  beforeEach(() => {
+    registry = new MarketRegistry();
+  });
+
+  test('should register every configured symbol', () => {
+    expect(registry.getSymbols().map(spec => spec.symbol)).toEqual(
+      SYMBOL_SPECS.map(spec => spec.symbol)
+    );
+  });
+
+  test('should keep a separate order book per symbol', () => {
+    const btc = registry.get('BTC-USD').matcher;
+    const eth = registry.get('ETH-USD').matcher;
+
+    btc.addOrder({
+      id: 'btc_bid',
+      price: 49000,
+      quantity: 1,
+      side: 'buy',
+      type: 'limit',
+      timestamp: Date.now(),
+    });
+
+    expect(btc.getOrderBook().bids).toHaveLength(1);
+    expect(eth.getOrderBook().bids).toHaveLength(0);
+  });
+
+  test('should apply each symbol instrument to its matcher', () => {
+    const sol = registry.get('SOL-USD');
+
+    expect(sol.matcher.getInstrument()).toEqual(sol.spec.instrument);
+  });
+
+  test('should tag feed messages with the symbol', () => {
+    jest.useFakeTimers();
+    const messages: WebSocketMessage[] = [];
+    const { feed, spec } = registry.get('ETH-USD');
+
+    const unsubscribe = feed.subscribe(message => messages.push(message));
+    jest.advanceTimersByTime(5000);
+    unsubscribe();
+    jest.useRealTimers();
+
+    expect(messages.length).toBeGreaterThan(0);
+    expect(messages.every(message => message.symbol === 'ETH-USD')).toBe(true);
+    expect(feed.getCurrentPrice()).toBeGreaterThan(spec.initialPrice / 2);
+  });
+
+  test('should quote real resting orders through the matcher', () => {
+    const { feed, matcher } = registry.get('BTC-USD');
+
+    const unsubscribe = feed.subscribe(() => {});
+    unsubscribe();
+
+    const { bids, asks } = matcher.getOrderBook();
+    expect(bids.length).toBeGreaterThan(0);
+    expect(asks.length).toBeGreaterThan(0);
+    expect(bids[0].price).toBeLessThan(asks[0].price);
+    expect(matcher.getOrders().every(order => isSimulatedAccount(order.accountId))).toBe(true);
+  });
+
+  test('should fill user orders against simulated liquidity', () => {
+    const { feed, matcher } = registry.get('BTC-USD');
+    const unsubscribe = feed.subscribe(() => {});
+    unsubscribe();
+
+    const bestAsk = matcher.getOrderBook().asks[0];
+    const result = matcher.addOrder({
+      id: 'user_buy',
+      price: bestAsk.price,
+      quantity: bestAsk.quantity,
+      side: 'buy',
+      type: 'limit',
+      timestamp: Date.now(),
+      accountId: 'user',
+    });
+
+    expect(result.status).toBe('filled');
+    expect(result.trades[0]).toMatchObject({ price: bestAsk.price, buyer: 'user_buy' });
+  });
+
+  test('should stream a snapshot followed by consecutive deltas', () => {
+    jest.useFakeTimers();
+    const messages: WebSocketMessage[] = [];
+    const { feed } = registry.get('BTC-USD');
+
+    const unsubscribe = feed.subscribe(message => messages.push(message));
+    jest.advanceTimersByTime(5000);
+    unsubscribe();
+    jest.useRealTimers();
+
+    const bookMessages = messages.filter(
+      message => message.type === 'snapshot' || message.type === 'delta'
+    );
+    const [snapshot, ...deltas] = bookMessages;
+    expect(snapshot.type).toBe('snapshot');
+    expect(deltas.every(message => message.type === 'delta')).toBe(true);
+    deltas.forEach((message, index) => {
+      expect((message.data as BookDelta).sequence).toBe(
+        (snapshot.data as BookSnapshot).sequence + index + 1
+      );
+    });
+  });
+
+  test('should send late subscribers a snapshot at the current sequence', () => {
+    const { feed } = registry.get('BTC-USD');
+    const first = feed.subscribe(() => {});
+    feed.publish();
+
+    const messages: WebSocketMessage[] = [];
+    const second = feed.subscribe(message => messages.push(message));
+    first();
+    second();
+
+    // Followed by the ticker if the symbol has already traded
+    expect(messages[0].type).toBe('snapshot');
+    expect(messages.slice(1).every(message => message.type === 'ticker')).toBe(true);
+  });
+
+  test('should publish a ticker after each batch of trades', () => {
+    const { feed, matcher } = registry.get('BTC-USD');
+    const messages: WebSocketMessage[] = [];
+    const unsubscribe = feed.subscribe(message => messages.push(message));
+
+    const bestAsk = matcher.getOrderBook().asks[0];
+    const { trades } = matcher.addOrder({
+      id: 'user_buy',
+      price: bestAsk.price,
+      quantity: bestAsk.quantity,
+      side: 'buy',
+      type: 'limit',
+      timestamp: Date.now(),
+      accountId: 'user',
+    });
+    feed.publish(trades);
+    unsubscribe();
+
+    const types = messages.map(message => message.type);
+    expect(types.slice(-3)).toEqual(['trade', 'ticker', 'delta']);
+    expect(messages[messages.length - 2].data).toMatchObject({
+      symbol: 'BTC-USD',
+      lastPrice: bestAsk.price,
+    });
+  });
+
+  test('should reject unknown and duplicate symbols', () => {
+    expect(() => registry.get('DOGE-USD')).toThrow('Unknown symbol: DOGE-USD');
+    expect(() => registry.register(SYMBOL_SPECS[0])).toThrow('already registered');
+  });
+});
@@ -0,0 +1,73 @@
+import { applyBookChanges, buildOrderBook, diffOrderBooks } from '../lib/orderBook';
+import { DEFAULT_INSTRUMENT } from '../lib/instrument';
+import type { OrderBookLevel } from '../types';
+
+const level = (price: number, quantity: number, count = 1): OrderBookLevel => ({
+  price,
+  quantity,
+  total: 0,
+  count,
+});
+
+describe('Order book deltas', () => {
+  const previous = buildOrderBook(
+    [level(100, 1), level(99.5, 2), level(99, 3)],
+    [level(101, 1), level(101.5, 2)],
+    DEFAULT_INSTRUMENT
+  );
+
+  test('should build totals, mid and spread from levels', () => {
+    expect(previous.bids.map(l => l.total)).toEqual([1, 3, 6]);
+    expect(previous.midPrice).toBe(100.5);
+    expect(previous.spread).toBe(1);
+  });
+
+  test('should describe changed, added and removed levels', () => {
+    const next = buildOrderBook(
+      [level(100, 1), level(99.5, 4, 2)],
+      [level(100.5, 0.5), level(101, 1), level(101.5, 2)],
+      DEFAULT_INSTRUMENT
+    );
+
+    expect(diffOrderBooks(previous, next)).toEqual([
+      { side: 'buy', price: 99, quantity: 0, count: 0 },
+      { side: 'buy', price: 99.5, quantity: 4, count: 2 },
+      { side: 'sell', price: 100.5, quantity: 0.5, count: 1 },
+    ]);
+  });
+
+  test('should rebuild the next book by applying the diff', () => {
+    const next = buildOrderBook(
+      [level(100.25, 3), level(99.5, 2)],
+      [level(101.5, 1)],
+      DEFAULT_INSTRUMENT
+    );
+
+    expect(applyBookChanges(previous, diffOrderBooks(previous, next), DEFAULT_INSTRUMENT)).toEqual(
+      next
+    );
+  });
+
+  test('should keep the untouched side as the same array', () => {
+    const updated = applyBookChanges(
+      previous,
+      [{ side: 'sell', price: 101, quantity: 0, count: 0 }],
+      DEFAULT_INSTRUMENT
+    );
+
+    expect(updated.bids).toBe(previous.bids);
+    expect(updated.asks).toEqual([{ price: 101.5, quantity: 2, total: 2, count: 1 }]);
+    expect(updated.spread).toBe(1.5);
+  });
+
+  test('should trim each side to the requested depth', () => {
+    const updated = applyBookChanges(
+      previous,
+      [{ side: 'buy', price: 100.5, quantity: 1, count: 1 }],
+      DEFAULT_INSTRUMENT,
+      2
+    );
+
+    expect(updated.bids.map(l => l.price)).toEqual([100.5, 100]);
+  });
+});
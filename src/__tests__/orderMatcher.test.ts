@@ -1,5 +1,14 @@
 import { OrderMatcher } from '../lib/orderMatcher';
-import type { Order } from '../types';
+import type { ExecutionReport, Order } from '../types';
+
+const limit = (id: string, side: 'buy' | 'sell', price: number, quantity: number): Order => ({
+  id,
+  price,
+  quantity,
+  side,
+  type: 'limit',
+  timestamp: Date.now(),
+});
 
 describe('OrderMatcher', () => {
   let matcher: OrderMatcher;
@@ -191,4 +200,790 @@ describe('OrderMatcher', () => {
       expect(orderBook.spread).toBe(1);
     });
   });
-});
\ No newline at end of file
+
+  describe('Price-Time Priority', () => {
+    test('should fill orders at the same price in arrival order', () => {
+      matcher.addOrder(limit('sell1', 'sell', 100, 2));
+      matcher.addOrder(limit('sell2', 'sell', 100, 2));
+      matcher.addOrder(limit('sell3', 'sell', 100, 2));
+
+      const { trades } = matcher.addOrder(limit('buy1', 'buy', 100, 3));
+
+      expect(trades.map(t => t.seller)).toEqual(['sell1', 'sell2']);
+      expect(trades.map(t => t.quantity)).toEqual([2, 1]);
+
+      const restingIds = matcher.getOrders().map(o => o.id);
+      expect(restingIds).toEqual(['sell2', 'sell3']);
+    });
+
+    test('should prefer better price over earlier arrival', () => {
+      matcher.addOrder(limit('sell1', 'sell', 101, 1));
+      matcher.addOrder(limit('sell2', 'sell', 100, 1));
+
+      const { trades } = matcher.addOrder(limit('buy1', 'buy', 101, 2));
+
+      expect(trades.map(t => t.seller)).toEqual(['sell2', 'sell1']);
+      expect(trades.map(t => t.price)).toEqual([100, 101]);
+    });
+
+    test('should not match a limit order beyond its price', () => {
+      matcher.addOrder(limit('sell1', 'sell', 100, 1));
+      matcher.addOrder(limit('sell2', 'sell', 102, 1));
+
+      const { trades, remainingOrder } = matcher.addOrder(limit('buy1', 'buy', 101, 2));
+
+      expect(trades).toHaveLength(1);
+      expect(remainingOrder?.quantity).toBe(1);
+      expect(matcher.getOrderBook().bids[0]).toEqual({ price: 101, quantity: 1, total: 1, count: 1 });
+    });
+
+    test('should keep level aggregates in sync after cancellation', () => {
+      matcher.addOrder(limit('buy1', 'buy', 99, 2));
+      matcher.addOrder(limit('buy2', 'buy', 99, 3));
+      matcher.addOrder(limit('buy3', 'buy', 98, 1));
+
+      expect(matcher.removeOrder('buy1')).toBe(true);
+      expect(matcher.removeOrder('buy1')).toBe(false);
+
+      const { bids } = matcher.getOrderBook();
+      expect(bids).toEqual([
+        { price: 99, quantity: 3, total: 3, count: 1 },
+        { price: 98, quantity: 1, total: 4, count: 1 },
+      ]);
+
+      matcher.removeOrder('buy2');
+      expect(matcher.getOrderBook().bids.map(b => b.price)).toEqual([98]);
+    });
+  });
+
+  describe('Time in Force', () => {
+    beforeEach(() => {
+      matcher.addOrder(limit('sell1', 'sell', 100, 2));
+      matcher.addOrder(limit('sell2', 'sell', 101, 2));
+    });
+
+    test('should rest GTC remainder by default', () => {
+      const result = matcher.addOrder(limit('buy1', 'buy', 100, 3));
+
+      expect(result.status).toBe('partially_filled');
+      expect(result.remainingOrder?.quantity).toBe(1);
+      expect(matcher.getOrders().map(o => o.id)).toContain('buy1');
+    });
+
+    test('should cancel IOC remainder', () => {
+      const result = matcher.addOrder({ ...limit('buy1', 'buy', 100, 3), timeInForce: 'ioc' });
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.status).toBe('cancelled');
+      expect(result.reason).toBe('ioc_remainder');
+      expect(result.remainingOrder).toBeNull();
+      expect(matcher.getOrders().map(o => o.id)).not.toContain('buy1');
+    });
+
+    test('should fill FOK order completely when liquidity allows', () => {
+      const result = matcher.addOrder({ ...limit('buy1', 'buy', 101, 4), timeInForce: 'fok' });
+
+      expect(result.status).toBe('filled');
+      expect(result.trades.map(t => t.quantity)).toEqual([2, 2]);
+    });
+
+    test('should reject FOK order that cannot be filled in full', () => {
+      const result = matcher.addOrder({ ...limit('buy1', 'buy', 100, 3), timeInForce: 'fok' });
+
+      expect(result.status).toBe('rejected');
+      expect(result.reason).toBe('fok_unfilled');
+      expect(result.trades).toHaveLength(0);
+      expect(matcher.getOrderBook().asks[0].quantity).toBe(2);
+    });
+
+    test('should reject post-only order that would cross', () => {
+      const result = matcher.addOrder({ ...limit('buy1', 'buy', 100, 1), timeInForce: 'post-only' });
+
+      expect(result.status).toBe('rejected');
+      expect(result.reason).toBe('post_only_would_cross');
+      expect(result.trades).toHaveLength(0);
+    });
+
+    test('should rest post-only order that does not cross', () => {
+      const result = matcher.addOrder({ ...limit('buy1', 'buy', 99, 1), timeInForce: 'post-only' });
+
+      expect(result.status).toBe('new');
+      expect(matcher.getOrderBook().bids[0].price).toBe(99);
+    });
+
+    test('should reject GTD order without a future expiry', () => {
+      const result = matcher.addOrder({
+        ...limit('buy1', 'buy', 99, 1),
+        timeInForce: 'gtd',
+        expireTime: Date.now() - 1000,
+      });
+
+      expect(result.status).toBe('rejected');
+      expect(result.reason).toBe('invalid_expire_time');
+    });
+
+    test('should expire GTD orders once their expiry passes', () => {
+      const expireTime = Date.now() + 1000;
+      matcher.addOrder({ ...limit('buy1', 'buy', 99, 1), timeInForce: 'gtd', expireTime });
+
+      expect(matcher.expireOrders(expireTime - 1)).toHaveLength(0);
+
+      const expired = matcher.expireOrders(expireTime);
+      expect(expired.map(o => o.id)).toEqual(['buy1']);
+      expect(matcher.getOrderBook().bids).toHaveLength(0);
+    });
+
+    test('should report market order remainder as cancelled', () => {
+      const result = matcher.addOrder({ ...limit('buy1', 'buy', 0, 5), type: 'market' });
+
+      expect(result.trades).toHaveLength(2);
+      expect(result.status).toBe('cancelled');
+      expect(result.reason).toBe('insufficient_liquidity');
+    });
+  });
+
+  describe('Stop Orders', () => {
+    beforeEach(() => {
+      // Establish a last trade price of 100
+      matcher.addOrder(limit('seed_sell', 'sell', 100, 1));
+      matcher.addOrder(limit('seed_buy', 'buy', 100, 1));
+    });
+
+    test('should park stop orders in the trigger book', () => {
+      const result = matcher.addOrder({
+        ...limit('stop1', 'buy', 0, 1),
+        type: 'stop',
+        stopPrice: 102,
+      });
+
+      expect(result.status).toBe('new');
+      expect(matcher.getStopOrders().map(o => o.id)).toEqual(['stop1']);
+      expect(matcher.getOrders().map(o => o.id)).not.toContain('stop1');
+    });
+
+    test('should reject stops that would trigger immediately', () => {
+      const result = matcher.addOrder({
+        ...limit('stop1', 'sell', 0, 1),
+        type: 'stop',
+        stopPrice: 101,
+      });
+
+      expect(result.status).toBe('rejected');
+      expect(result.reason).toBe('stop_would_trigger_immediately');
+    });
+
+    test('should trigger a buy stop when the last trade reaches the stop price', () => {
+      matcher.addOrder({ ...limit('stop1', 'buy', 0, 1), type: 'stop', stopPrice: 102 });
+      matcher.addOrder(limit('sell1', 'sell', 102, 1));
+      matcher.addOrder(limit('sell2', 'sell', 103, 1));
+
+      const result = matcher.addOrder(limit('buy1', 'buy', 102, 1));
+
+      expect(result.triggeredOrders).toHaveLength(1);
+      expect(result.triggeredOrders[0].status).toBe('filled');
+      expect(result.trades.map(t => [t.buyer, t.price])).toEqual([
+        ['buy1', 102],
+        ['stop1', 103],
+      ]);
+      expect(matcher.getStopOrders()).toHaveLength(0);
+    });
+
+    test('should rest a triggered stop-limit at its limit price', () => {
+      matcher.addOrder({
+        ...limit('stop1', 'sell', 97, 2),
+        type: 'stop-limit',
+        stopPrice: 98,
+      });
+      matcher.addOrder(limit('buy1', 'buy', 98, 1));
+
+      const result = matcher.addOrder(limit('sell1', 'sell', 98, 1));
+
+      expect(result.triggeredOrders[0].status).toBe('new');
+      expect(matcher.getOrderBook().asks[0]).toMatchObject({ price: 97, quantity: 2 });
+    });
+
+    test('should cascade through stops set off by triggered fills', () => {
+      matcher.addOrder({ ...limit('stop1', 'sell', 0, 1), type: 'stop', stopPrice: 99 });
+      matcher.addOrder({ ...limit('stop2', 'sell', 0, 1), type: 'stop', stopPrice: 97 });
+      matcher.addOrder(limit('buy1', 'buy', 99, 1));
+      matcher.addOrder(limit('buy2', 'buy', 97, 1));
+      matcher.addOrder(limit('buy3', 'buy', 95, 1));
+
+      const result = matcher.addOrder(limit('sell1', 'sell', 99, 1));
+
+      expect(result.triggeredOrders.map(r => r.trades[0].seller)).toEqual(['stop1', 'stop2']);
+      expect(result.trades.map(t => t.price)).toEqual([99, 97, 95]);
+      expect(matcher.getLastTradePrice()).toBe(95);
+    });
+
+    test('should cancel a pending stop order', () => {
+      matcher.addOrder({ ...limit('stop1', 'buy', 0, 1), type: 'stop', stopPrice: 102 });
+
+      expect(matcher.removeOrder('stop1')).toBe(true);
+      expect(matcher.getStopOrders()).toHaveLength(0);
+    });
+
+    test('should cancel a triggered stop the config turns away', () => {
+      matcher.updateConfig({ prepareTriggeredStop: () => 'insufficient_funds' });
+      matcher.addOrder({ ...limit('stop1', 'buy', 0, 1), type: 'stop', stopPrice: 102 });
+      matcher.addOrder(limit('sell1', 'sell', 102, 2));
+
+      const result = matcher.addOrder(limit('buy1', 'buy', 102, 1));
+
+      expect(result.triggeredOrders[0]).toMatchObject({
+        status: 'cancelled',
+        reason: 'insufficient_funds',
+      });
+      expect(result.trades.map(t => t.buyer)).toEqual(['buy1']);
+      expect(matcher.getStopOrders()).toHaveLength(0);
+    });
+  });
+
+  describe('Order Amendment', () => {
+    beforeEach(() => {
+      matcher.addOrder(limit('buy1', 'buy', 99, 5));
+      matcher.addOrder(limit('buy2', 'buy', 99, 5));
+    });
+
+    test('should keep queue position when reducing quantity', () => {
+      const result = matcher.amendOrder('buy1', { quantity: 2 });
+
+      expect(result.status).toBe('new');
+      expect(matcher.getOrders().map(o => [o.id, o.quantity])).toEqual([
+        ['buy1', 2],
+        ['buy2', 5],
+      ]);
+      expect(matcher.getOrderBook().bids[0].quantity).toBe(7);
+    });
+
+    test('should lose queue position when increasing quantity', () => {
+      matcher.amendOrder('buy1', { quantity: 6 });
+
+      expect(matcher.getOrders().map(o => o.id)).toEqual(['buy2', 'buy1']);
+      expect(matcher.getOrderBook().bids[0].quantity).toBe(11);
+    });
+
+    test('should keep the placement time when the queue time moves on', () => {
+      matcher.addOrder({ ...limit('buy3', 'buy', 98, 1), timestamp: 1000 });
+
+      matcher.amendOrder('buy3', { quantity: 2 });
+      matcher.amendOrder('buy3', { price: 97 });
+
+      const amended = matcher.getOrders().find(o => o.id === 'buy3');
+      expect(amended).toMatchObject({ placedAt: 1000 });
+      expect(amended?.timestamp).toBeGreaterThan(1000);
+    });
+
+    test('should move the order to its new price level', () => {
+      matcher.addOrder(limit('buy3', 'buy', 98, 1));
+      matcher.amendOrder('buy1', { price: 98 });
+
+      const { bids } = matcher.getOrderBook();
+      expect(bids.map(b => [b.price, b.quantity, b.count])).toEqual([
+        [99, 5, 1],
+        [98, 6, 2],
+      ]);
+      expect(matcher.getOrders().map(o => o.id)).toEqual(['buy2', 'buy3', 'buy1']);
+    });
+
+    test('should match immediately when the new price crosses the book', () => {
+      matcher.addOrder(limit('sell1', 'sell', 101, 3));
+
+      const result = matcher.amendOrder('buy1', { price: 101 });
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0]).toMatchObject({ buyer: 'buy1', seller: 'sell1', price: 101, quantity: 3 });
+      expect(result.status).toBe('partially_filled');
+      expect(result.remainingOrder).toMatchObject({ id: 'buy1', price: 101, quantity: 2 });
+    });
+
+    test('should reject amendments for unknown orders', () => {
+      const result = matcher.amendOrder('missing', { price: 100 });
+
+      expect(result.status).toBe('rejected');
+      expect(result.reason).toBe('order_not_found');
+    });
+
+    test('should leave a post-only order untouched when the amend would cross', () => {
+      matcher.addOrder(limit('sell1', 'sell', 101, 3));
+      matcher.addOrder({ ...limit('buy3', 'buy', 100, 1), timeInForce: 'post-only' });
+
+      const result = matcher.amendOrder('buy3', { price: 101 });
+
+      expect(result.status).toBe('rejected');
+      expect(result.reason).toBe('post_only_would_cross');
+      expect(matcher.getOrderBook().bids[0]).toMatchObject({ price: 100, quantity: 1 });
+    });
+
+    test('should leave the order in place when the amended order is rejected', () => {
+      const now = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now');
+      matcher.addOrder({ ...limit('gtd1', 'buy', 98, 1), timeInForce: 'gtd', expireTime: now + 1000 });
+      const execTypes: string[] = [];
+      matcher.subscribe(report => execTypes.push(report.execType));
+
+      nowSpy.mockReturnValue(now + 2000);
+      const result = matcher.amendOrder('gtd1', { price: 97 });
+      nowSpy.mockRestore();
+
+      expect(result).toMatchObject({ status: 'rejected', reason: 'invalid_expire_time' });
+      expect(execTypes).toEqual([]);
+      expect(matcher.getOrders().map(o => o.id)).toEqual(['buy1', 'buy2', 'gtd1']);
+      expect(matcher.getOrderBook().bids[1]).toMatchObject({ price: 98, quantity: 1 });
+    });
+  });
+
+  describe('Instrument Rules', () => {
+    test('should not leave float dust after partial fills', () => {
+      matcher.addOrder(limit('sell1', 'sell', 100, 0.3));
+      matcher.addOrder(limit('buy1', 'buy', 100, 0.1));
+      matcher.addOrder(limit('buy2', 'buy', 100, 0.2));
+
+      expect(matcher.getOrders()).toHaveLength(0);
+      expect(matcher.getOrderBook().asks).toHaveLength(0);
+    });
+
+    test('should keep level totals exact', () => {
+      matcher.addOrder(limit('buy1', 'buy', 0.3, 10.1));
+      matcher.addOrder(limit('buy2', 'buy', 0.3, 3.7));
+      matcher.addOrder(limit('sell1', 'sell', 0.31, 3.7));
+
+      const orderBook = matcher.getOrderBook();
+      expect(orderBook.bids[0]).toEqual({ price: 0.3, quantity: 13.8, total: 13.8, count: 2 });
+      expect(orderBook.spread).toBe(0.01);
+      expect(orderBook.midPrice).toBe(0.305);
+    });
+
+    test('should reject prices off the tick grid', () => {
+      const result = matcher.addOrder(limit('buy1', 'buy', 100.005, 1));
+
+      expect(result.status).toBe('rejected');
+      expect(result.reason).toBe('invalid_tick_size');
+    });
+
+    test('should reject quantities off the lot grid', () => {
+      const result = matcher.addOrder(limit('buy1', 'buy', 100, 1.00005));
+
+      expect(result.status).toBe('rejected');
+      expect(result.reason).toBe('invalid_lot_size');
+    });
+
+    test('should enforce minimum quantity and notional', () => {
+      const strict = new OrderMatcher({
+        instrument: { tickSize: 0.5, lotSize: 0.1, minQuantity: 1, minNotional: 50 },
+      });
+
+      expect(strict.addOrder(limit('buy1', 'buy', 100, 0.5)).reason).toBe('below_min_quantity');
+      expect(strict.addOrder(limit('buy2', 'buy', 10, 2)).reason).toBe('below_min_notional');
+      expect(strict.addOrder(limit('buy3', 'buy', 100.5, 1.5)).status).toBe('new');
+    });
+  });
+
+  describe('Self-Trade Prevention', () => {
+    const accountLimit = (
+      id: string,
+      side: 'buy' | 'sell',
+      price: number,
+      quantity: number,
+      accountId?: string
+    ): Order => ({ ...limit(id, side, price, quantity), accountId });
+
+    const setupBook = (m: OrderMatcher) => {
+      m.addOrder(accountLimit('own_sell', 'sell', 100, 2, 'alice'));
+      m.addOrder(accountLimit('other_sell', 'sell', 100, 2, 'bob'));
+    };
+
+    test('should cancel the incoming order by default (cancel newest)', () => {
+      setupBook(matcher);
+
+      const result = matcher.addOrder(accountLimit('own_buy', 'buy', 100, 3, 'alice'));
+
+      expect(result.trades).toHaveLength(0);
+      expect(result.status).toBe('cancelled');
+      expect(result.reason).toBe('self_trade_prevention');
+      expect(result.cancelledOrders).toHaveLength(0);
+      expect(matcher.getOrders().map(o => o.id)).toEqual(['own_sell', 'other_sell']);
+    });
+
+    test('should cancel the resting order and keep matching (cancel oldest)', () => {
+      matcher = new OrderMatcher({ selfTradePrevention: 'cancel_oldest' });
+      setupBook(matcher);
+
+      const result = matcher.addOrder(accountLimit('own_buy', 'buy', 100, 3, 'alice'));
+
+      expect(result.cancelledOrders).toEqual([
+        expect.objectContaining({
+          order: expect.objectContaining({ id: 'own_sell', quantity: 2 }),
+          cancelledQuantity: 2,
+          reason: 'self_trade_prevention',
+        }),
+      ]);
+      expect(result.trades.map(t => t.seller)).toEqual(['other_sell']);
+      expect(result.status).toBe('partially_filled');
+      expect(result.remainingOrder?.quantity).toBe(1);
+    });
+
+    test('should cancel both orders (cancel both)', () => {
+      matcher = new OrderMatcher({ selfTradePrevention: 'cancel_both' });
+      setupBook(matcher);
+
+      const result = matcher.addOrder(accountLimit('own_buy', 'buy', 100, 3, 'alice'));
+
+      expect(result.trades).toHaveLength(0);
+      expect(result.status).toBe('cancelled');
+      expect(result.cancelledOrders.map(c => c.order.id)).toEqual(['own_sell']);
+      expect(matcher.getOrders().map(o => o.id)).toEqual(['other_sell']);
+    });
+
+    test('should decrement both sides by the overlap (decrement and cancel)', () => {
+      matcher = new OrderMatcher({ selfTradePrevention: 'decrement_and_cancel' });
+      setupBook(matcher);
+
+      const result = matcher.addOrder(accountLimit('own_buy', 'buy', 100, 3, 'alice'));
+
+      // 2 lots cancelled against own_sell, the last 1 trades with bob
+      expect(result.cancelledOrders[0]).toMatchObject({ cancelledQuantity: 2 });
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0]).toMatchObject({ seller: 'other_sell', quantity: 1 });
+      expect(result.status).toBe('cancelled');
+      expect(result.remainingOrder).toBeNull();
+      expect(matcher.getOrders().map(o => [o.id, o.quantity])).toEqual([['other_sell', 1]]);
+    });
+
+    test('should leave the larger resting order reduced (decrement and cancel)', () => {
+      matcher = new OrderMatcher({ selfTradePrevention: 'decrement_and_cancel' });
+      matcher.addOrder(accountLimit('own_sell', 'sell', 100, 5, 'alice'));
+
+      const result = matcher.addOrder(accountLimit('own_buy', 'buy', 100, 2, 'alice'));
+
+      expect(result.status).toBe('cancelled');
+      expect(result.reason).toBe('self_trade_prevention');
+      expect(matcher.getOrders().map(o => [o.id, o.quantity])).toEqual([['own_sell', 3]]);
+    });
+
+    test('should allow trades between different accounts', () => {
+      setupBook(matcher);
+
+      const result = matcher.addOrder(accountLimit('bob_buy', 'buy', 100, 1, 'bob'));
+
+      expect(result.trades[0]).toMatchObject({ seller: 'own_sell', quantity: 1 });
+    });
+
+    test('should reject a FOK order that could only fill against its own account', () => {
+      matcher.addOrder(accountLimit('own_sell', 'sell', 100, 2, 'alice'));
+
+      const result = matcher.addOrder({
+        ...accountLimit('own_buy', 'buy', 100, 2, 'alice'),
+        timeInForce: 'fok',
+      });
+
+      expect(result).toMatchObject({ status: 'rejected', reason: 'fok_unfilled' });
+      expect(matcher.getOrders().map(o => o.id)).toEqual(['own_sell']);
+    });
+
+    test('should count only other accounts\' liquidity for FOK orders (cancel oldest)', () => {
+      matcher = new OrderMatcher({ selfTradePrevention: 'cancel_oldest' });
+      setupBook(matcher);
+      const fok = (id: string, quantity: number): Order => ({
+        ...accountLimit(id, 'buy', 100, quantity, 'alice'),
+        timeInForce: 'fok',
+      });
+
+      expect(matcher.addOrder(fok('too_big', 3)).reason).toBe('fok_unfilled');
+      expect(matcher.addOrder(fok('fits', 2)).status).toBe('filled');
+    });
+  });
+
+  describe('Iceberg Orders', () => {
+    const iceberg = (id: string, price: number, quantity: number, displayQuantity: number): Order => ({
+      ...limit(id, 'sell', price, quantity),
+      displayQuantity,
+    });
+
+    test('should only show the peak on the order book', () => {
+      matcher.addOrder(iceberg('ice', 100, 10, 2));
+      matcher.addOrder(limit('plain', 'sell', 100, 1));
+
+      const { asks } = matcher.getOrderBook();
+      expect(asks[0]).toMatchObject({ price: 100, quantity: 3, total: 3, count: 2 });
+      expect(matcher.getOrders().find(o => o.id === 'ice')?.quantity).toBe(10);
+    });
+
+    test('should refresh the next slice at the back of the queue', () => {
+      matcher.addOrder(iceberg('ice', 100, 5, 2));
+      matcher.addOrder(limit('plain', 'sell', 100, 3));
+
+      // Consumes the first peak; the refreshed slice now queues behind `plain`
+      const first = matcher.addOrder(limit('buy_1', 'buy', 100, 2));
+      expect(first.trades.map(t => t.seller)).toEqual(['ice']);
+      expect(matcher.getOrderBook().asks[0].quantity).toBe(5);
+
+      const second = matcher.addOrder(limit('buy_2', 'buy', 100, 4));
+      expect(second.trades.map(t => [t.seller, t.quantity])).toEqual([
+        ['plain', 3],
+        ['ice', 1],
+      ]);
+    });
+
+    test('should keep the placement time across refreshed slices', () => {
+      matcher.addOrder({ ...iceberg('ice', 100, 5, 2), timestamp: 1000 });
+
+      matcher.addOrder(limit('buy_1', 'buy', 100, 2));
+
+      const refreshed = matcher.getOrders()[0];
+      expect(refreshed).toMatchObject({ id: 'ice', placedAt: 1000 });
+      expect(refreshed.timestamp).toBeGreaterThan(1000);
+    });
+
+    test('should keep refreshing within one aggressive order', () => {
+      matcher.addOrder(iceberg('ice', 100, 5, 2));
+
+      const result = matcher.addOrder(limit('buy_1', 'buy', 100, 5));
+
+      expect(result.trades.map(t => t.quantity)).toEqual([2, 2, 1]);
+      expect(result.status).toBe('filled');
+      expect(matcher.getOrderBook().asks).toHaveLength(0);
+    });
+
+    test('should count hidden quantity for fill-or-kill', () => {
+      matcher.addOrder(iceberg('ice', 100, 5, 1));
+
+      const result = matcher.addOrder({ ...limit('fok_buy', 'buy', 100, 4), timeInForce: 'fok' });
+
+      expect(result.status).toBe('filled');
+    });
+
+    test('should reject invalid display quantities', () => {
+      expect(matcher.addOrder(iceberg('too_big', 100, 1, 2)).reason).toBe('invalid_display_quantity');
+      expect(
+        matcher.addOrder({
+          id: 'market_ice',
+          price: 0,
+          quantity: 2,
+          side: 'buy',
+          type: 'market',
+          timestamp: Date.now(),
+          displayQuantity: 1,
+        }).reason
+      ).toBe('invalid_display_quantity');
+    });
+
+    test('should shrink the peak when the order is reduced below it', () => {
+      matcher.addOrder(iceberg('ice', 100, 5, 3));
+
+      matcher.amendOrder('ice', { quantity: 2 });
+
+      expect(matcher.getOrderBook().asks[0].quantity).toBe(2);
+      expect(matcher.getOrders()[0]).toMatchObject({ quantity: 2, displayQuantity: 2 });
+    });
+
+    test('should restore the original peak when the order grows again', () => {
+      matcher.addOrder(iceberg('ice', 100, 5, 3));
+
+      matcher.amendOrder('ice', { quantity: 1 });
+      matcher.amendOrder('ice', { quantity: 6 });
+
+      expect(matcher.getOrderBook().asks[0].quantity).toBe(3);
+      expect(matcher.getOrders()[0]).toMatchObject({ quantity: 6, displayQuantity: 3 });
+    });
+  });
+
+  describe('Slippage Protection', () => {
+    const market = (id: string, side: 'buy' | 'sell', quantity: number, protection: Partial<Order> = {}): Order => ({
+      id,
+      price: 0,
+      quantity,
+      side,
+      type: 'market',
+      timestamp: Date.now(),
+      ...protection,
+    });
+
+    beforeEach(() => {
+      matcher.addOrder(limit('ask_1', 'sell', 100, 1));
+      matcher.addOrder(limit('ask_2', 'sell', 100.5, 1));
+      matcher.addOrder(limit('ask_3', 'sell', 102, 1));
+    });
+
+    test('should stop sweeping at the bps limit from the best price', () => {
+      const result = matcher.addOrder(market('buy_1', 'buy', 3, { maxSlippageBps: 50 }));
+
+      expect(result.trades.map(t => t.price)).toEqual([100, 100.5]);
+      expect(result).toMatchObject({
+        status: 'cancelled',
+        reason: 'slippage_limit',
+        filledQuantity: 2,
+        avgPrice: 100.25,
+      });
+      expect(matcher.getOrderBook().asks[0].price).toBe(102);
+    });
+
+    test('should stop sweeping at the protection price', () => {
+      const result = matcher.addOrder(market('buy_1', 'buy', 3, { protectionPrice: 100 }));
+
+      expect(result.filledQuantity).toBe(1);
+      expect(result.reason).toBe('slippage_limit');
+    });
+
+    test('should use the tighter of the two limits', () => {
+      const result = matcher.addOrder(
+        market('buy_1', 'buy', 3, { maxSlippageBps: 500, protectionPrice: 100.5 })
+      );
+
+      expect(result.filledQuantity).toBe(2);
+    });
+
+    test('should report an unfilled market order against an empty book', () => {
+      const result = matcher.addOrder(market('sell_1', 'sell', 2, { maxSlippageBps: 10 }));
+
+      expect(result).toMatchObject({
+        status: 'cancelled',
+        reason: 'insufficient_liquidity',
+        filledQuantity: 0,
+        avgPrice: 0,
+        remainingOrder: null,
+      });
+    });
+
+    test('should reject slippage limits on limit orders and negative values', () => {
+      expect(matcher.addOrder({ ...limit('buy_1', 'buy', 99, 1), maxSlippageBps: 10 }).reason).toBe(
+        'invalid_slippage_limit'
+      );
+      expect(matcher.addOrder(market('buy_2', 'buy', 1, { maxSlippageBps: -1 })).reason).toBe(
+        'invalid_slippage_limit'
+      );
+      expect(matcher.addOrder(market('buy_3', 'buy', 1, { protectionPrice: 100.005 })).reason).toBe(
+        'invalid_tick_size'
+      );
+    });
+  });
+
+  describe('Execution Reports', () => {
+    let reports: ExecutionReport[];
+
+    beforeEach(() => {
+      reports = [];
+      matcher.subscribe(report => reports.push(report));
+    });
+
+    const reportsFor = (orderId: string) => reports.filter(r => r.orderId === orderId);
+
+    test('should report new, partial fill and fill with running totals', () => {
+      matcher.addOrder(limit('sell_1', 'sell', 100, 1));
+      matcher.addOrder(limit('sell_2', 'sell', 102, 1));
+      matcher.addOrder(limit('buy_1', 'buy', 102, 2));
+
+      expect(reportsFor('buy_1').map(r => r.execType)).toEqual(['new', 'partial_fill', 'fill']);
+
+      const [, partial, fill] = reportsFor('buy_1');
+      expect(partial).toMatchObject({
+        status: 'partially_filled',
+        cumQuantity: 1,
+        leavesQuantity: 1,
+        avgPrice: 100,
+        lastPrice: 100,
+        lastQuantity: 1,
+        liquidity: 'taker',
+      });
+      expect(fill).toMatchObject({
+        status: 'filled',
+        quantity: 2,
+        cumQuantity: 2,
+        leavesQuantity: 0,
+        avgPrice: 101,
+        lastPrice: 102,
+      });
+      expect(reportsFor('sell_1').map(r => r.execType)).toEqual(['new', 'fill']);
+      expect(reportsFor('sell_1')[1].liquidity).toBe('maker');
+      expect(reportsFor('sell_1')[0].liquidity).toBeUndefined();
+    });
+
+    test('should report the cancelled remainder of a market order', () => {
+      matcher.addOrder(limit('sell_1', 'sell', 100, 1));
+      matcher.addOrder({
+        id: 'market_buy',
+        price: 0,
+        quantity: 3,
+        side: 'buy',
+        type: 'market',
+        timestamp: Date.now(),
+      });
+
+      const last = reportsFor('market_buy').pop();
+      expect(last).toMatchObject({
+        execType: 'cancelled',
+        reason: 'insufficient_liquidity',
+        cumQuantity: 1,
+        leavesQuantity: 0,
+      });
+    });
+
+    test('should report rejections', () => {
+      matcher.addOrder(limit('sell_1', 'sell', 100, 1));
+      matcher.addOrder({ ...limit('buy_1', 'buy', 100, 1), timeInForce: 'post-only' });
+
+      expect(reportsFor('buy_1')).toEqual([
+        expect.objectContaining({
+          execType: 'rejected',
+          status: 'rejected',
+          reason: 'post_only_would_cross',
+        }),
+      ]);
+    });
+
+    test('should report expiry and cancellation', () => {
+      const now = Date.now();
+      matcher.addOrder({ ...limit('gtd_buy', 'buy', 99, 1), timeInForce: 'gtd', expireTime: now + 1000 });
+      matcher.addOrder(limit('gtc_buy', 'buy', 98, 1));
+
+      matcher.expireOrders(now + 2000);
+      matcher.removeOrder('gtc_buy');
+
+      expect(reportsFor('gtd_buy').pop()).toMatchObject({ execType: 'expired', status: 'expired' });
+      expect(reportsFor('gtc_buy').pop()).toMatchObject({ execType: 'cancelled', leavesQuantity: 0 });
+    });
+
+    test('should keep filled quantity across amendments', () => {
+      matcher.addOrder(limit('buy_1', 'buy', 100, 3));
+      matcher.addOrder(limit('sell_1', 'sell', 100, 1));
+
+      matcher.amendOrder('buy_1', { quantity: 1 });
+
+      expect(reportsFor('buy_1').pop()).toMatchObject({
+        execType: 'replaced',
+        status: 'partially_filled',
+        quantity: 2,
+        cumQuantity: 1,
+        leavesQuantity: 1,
+      });
+    });
+
+    test('should carry a stop order through to its fill', () => {
+      matcher.addOrder(limit('sell_1', 'sell', 100, 1));
+      matcher.addOrder(limit('sell_2', 'sell', 101, 1));
+      matcher.addOrder({
+        id: 'stop_buy',
+        price: 0,
+        quantity: 1,
+        side: 'buy',
+        type: 'stop',
+        stopPrice: 100,
+        timestamp: Date.now(),
+      });
+      matcher.addOrder(limit('buy_1', 'buy', 100, 1));
+
+      expect(reportsFor('stop_buy').map(r => r.execType)).toEqual(['new', 'fill']);
+      expect(reportsFor('stop_buy')[1]).toMatchObject({ type: 'market', avgPrice: 101 });
+    });
+
+    test('should stop reporting after unsubscribe', () => {
+      const listener = jest.fn();
+      const unsubscribe = matcher.subscribe(listener);
+      unsubscribe();
+
+      matcher.addOrder(limit('buy_1', 'buy', 100, 1));
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { FLAT_POSITION, applyFill, getMarkPrice, getUnrealizedPnl } from '../lib/positions';
+import { DEFAULT_INSTRUMENT } from '../lib/instrument';
+import { useExchangeStore } from '../store/exchangeStore';
+import type { ExecutionReport, MarketState } from '../types';
+
+const market = (changes: Partial<MarketState>): MarketState => ({
+  orderBook: { bids: [], asks: [], midPrice: 0, spread: 0 },
+  trades: [],
+  openOrders: [],
+  instrument: DEFAULT_INSTRUMENT,
+  ticker: null,
+  ...changes,
+});
+
+describe('applyFill', () => {
+  test('should average the entry price while the position grows', () => {
+    let position = applyFill(FLAT_POSITION, 'buy', 100, 1);
+    position = applyFill(position, 'buy', 110, 3);
+
+    expect(position).toEqual({ quantity: 4, avgEntryPrice: 107.5, realizedPnl: 0 });
+  });
+
+  test('should realize PnL on reductions and keep the entry price', () => {
+    let position = applyFill(FLAT_POSITION, 'buy', 100, 4);
+    position = applyFill(position, 'sell', 105, 1.5);
+
+    expect(position).toEqual({ quantity: 2.5, avgEntryPrice: 100, realizedPnl: 7.5 });
+
+    position = applyFill(position, 'sell', 98, 2.5);
+    expect(position).toEqual({ quantity: 0, avgEntryPrice: 0, realizedPnl: 2.5 });
+  });
+
+  test('should track shorts and flip at the fill price', () => {
+    let position = applyFill(FLAT_POSITION, 'sell', 200, 2);
+    expect(position).toEqual({ quantity: -2, avgEntryPrice: 200, realizedPnl: 0 });
+
+    // Buying 3 covers the short at a 20 profit and opens a long of 1
+    position = applyFill(position, 'buy', 190, 3);
+    expect(position).toEqual({ quantity: 1, avgEntryPrice: 190, realizedPnl: 20 });
+  });
+
+  test('should realize fees as they are paid and rebates as they are earned', () => {
+    let position = applyFill(FLAT_POSITION, 'buy', 100, 2, 0.4);
+    expect(position).toEqual({ quantity: 2, avgEntryPrice: 100, realizedPnl: -0.4 });
+
+    position = applyFill(position, 'sell', 110, 2, -0.02);
+    expect(position).toEqual({ quantity: 0, avgEntryPrice: 0, realizedPnl: 19.62 });
+  });
+});
+
+describe('Marking to market', () => {
+  test('should mark to the mid, falling back to the last trade', () => {
+    const trades = [{ id: 't1', price: 99, quantity: 1, side: 'buy' as const, timestamp: 0 }];
+    const orderBook = { bids: [], asks: [], midPrice: 101, spread: 2 };
+
+    expect(getMarkPrice(market({ orderBook, trades }))).toBe(101);
+    expect(getMarkPrice(market({ trades }))).toBe(99);
+    expect(getMarkPrice(market({}))).toBeNull();
+  });
+
+  test('should value longs and shorts against the mark', () => {
+    expect(getUnrealizedPnl({ quantity: 2, avgEntryPrice: 100, realizedPnl: 0 }, 103)).toBe(6);
+    expect(getUnrealizedPnl({ quantity: -2, avgEntryPrice: 100, realizedPnl: 0 }, 103)).toBe(-6);
+  });
+});
+
+describe('Store positions', () => {
+  const report = (changes: Partial<ExecutionReport>): ExecutionReport => ({
+    id: 'exec_1',
+    orderId: 'order_1',
+    accountId: 'user',
+    execType: 'fill',
+    status: 'filled',
+    side: 'buy',
+    type: 'limit',
+    price: 100,
+    quantity: 1,
+    cumQuantity: 1,
+    leavesQuantity: 0,
+    avgPrice: 100,
+    timestamp: 0,
+    ...changes,
+  });
+
+  test('should build the position from fills in execution reports', () => {
+    const { applyExecutionReport } = useExchangeStore.getState();
+    const before = useExchangeStore.getState().positions['ETH-USD'];
+
+    applyExecutionReport(report({ execType: 'new', status: 'new' }), 'ETH-USD');
+    expect(useExchangeStore.getState().positions['ETH-USD']).toBe(before);
+
+    applyExecutionReport(report({ lastPrice: 100, lastQuantity: 2, tradeId: 't1' }), 'ETH-USD');
+    applyExecutionReport(
+      report({ id: 'exec_2', side: 'sell', lastPrice: 110, lastQuantity: 1, tradeId: 't2' }),
+      'ETH-USD'
+    );
+
+    expect(useExchangeStore.getState().positions['ETH-USD']).toEqual({
+      quantity: 1,
+      avgEntryPrice: 100,
+      realizedPnl: 10,
+    });
+  });
+
+  test('should keep every fill and the final report of each order', () => {
+    const { applyExecutionReport } = useExchangeStore.getState();
+    const { fills, orderHistory } = useExchangeStore.getState();
+
+    applyExecutionReport(
+      report({
+        orderId: 'order_2',
+        execType: 'partial_fill',
+        status: 'partially_filled',
+        lastPrice: 100,
+        lastQuantity: 0.5,
+        tradeId: 't3',
+        liquidity: 'maker',
+      }),
+      'BTC-USD'
+    );
+    expect(useExchangeStore.getState().orderHistory).toBe(orderHistory);
+
+    applyExecutionReport(
+      report({ orderId: 'order_2', execType: 'cancelled', status: 'cancelled' }),
+      'BTC-USD'
+    );
+
+    const state = useExchangeStore.getState();
+    expect(state.fills).toHaveLength(fills.length + 1);
+    expect(state.fills[0]).toMatchObject({
+      id: 't3',
+      orderId: 'order_2',
+      symbol: 'BTC-USD',
+      price: 100,
+      quantity: 0.5,
+      liquidity: 'maker',
+    });
+    expect(state.orderHistory[0]).toMatchObject({
+      orderId: 'order_2',
+      symbol: 'BTC-USD',
+      status: 'cancelled',
+    });
+  });
+
+  test('should ignore reports for other accounts', () => {
+    const before = useExchangeStore.getState().positions['SOL-USD'];
+    const simulated = report({ accountId: 'sim-noise-1', lastPrice: 1, lastQuantity: 1 });
+    useExchangeStore.getState().applyExecutionReport(simulated, 'SOL-USD');
+
+    expect(useExchangeStore.getState().positions['SOL-USD']).toBe(before);
+  });
+});
@@ -0,0 +1,226 @@
+import { useExchangeStore } from '../store/exchangeStore';
+import { FakeSocket } from '../lib/fakeSocket';
+import { parseRecording, serializeRecording } from '../lib/recording';
+import { ReplayTransport } from '../lib/replayTransport';
+import type { BookSnapshot, WebSocketMessage } from '../types';
+
+const SYMBOL = 'BTC-USD';
+const START = 1_700_000_000_000;
+
+const level = (price: number, quantity: number) => ({ price, quantity, total: quantity, count: 1 });
+
+// One second of feed: a snapshot, a delta, then a trade and its ticker
+const RECORDING: WebSocketMessage[] = [
+  {
+    type: 'snapshot',
+    symbol: SYMBOL,
+    data: { sequence: 1, bids: [level(100, 1)], asks: [level(101, 2)] },
+    timestamp: START,
+  },
+  {
+    type: 'delta',
+    symbol: SYMBOL,
+    data: { sequence: 2, changes: [{ side: 'buy', price: 99, quantity: 3, count: 1 }] },
+    timestamp: START + 400,
+  },
+  {
+    type: 'trade',
+    symbol: SYMBOL,
+    data: { id: 't1', price: 101, quantity: 0.5, side: 'buy', timestamp: START + 1000 },
+    timestamp: START + 1000,
+  },
+  {
+    type: 'ticker',
+    symbol: SYMBOL,
+    data: {
+      symbol: SYMBOL,
+      lastPrice: 101,
+      priceChange: 0,
+      priceChangePercent: 0,
+      volume24h: 0.5,
+      high24h: 101,
+      low24h: 101,
+    },
+    timestamp: START + 1000,
+  },
+];
+
+describe('Recording files', () => {
+  test('should round-trip messages through NDJSON', () => {
+    const ndjson = serializeRecording(RECORDING);
+
+    expect(ndjson.trim().split('\n')).toHaveLength(RECORDING.length);
+    expect(parseRecording(ndjson)).toEqual(RECORDING);
+  });
+
+  test('should report the line of a malformed message', () => {
+    const ndjson = `${JSON.stringify(RECORDING[0])}\n\n{"type":"quote"}\n`;
+
+    expect(() => parseRecording(ndjson)).toThrow('Line 3 is not a market data message');
+    expect(() => parseRecording('{oops')).toThrow('Line 1 is not valid JSON');
+  });
+});
+
+describe('ReplayTransport', () => {
+  let received: WebSocketMessage[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    received = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should play messages on the recorded clock', () => {
+    const replay = new ReplayTransport(RECORDING);
+    replay.subscribe(message => received.push(message));
+
+    jest.advanceTimersByTime(0);
+    expect(received.map(m => m.type)).toEqual(['snapshot']);
+
+    jest.advanceTimersByTime(399);
+    expect(received).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(received).toHaveLength(2);
+
+    jest.advanceTimersByTime(600);
+    expect(received).toEqual(RECORDING);
+    expect(replay.getProgress()).toMatchObject({ position: 1000, duration: 1000, isFinished: true });
+  });
+
+  test.each([
+    [0.5, 2000],
+    [5, 200],
+  ] as const)('should scale the clock at %sx', (speed, elapsed) => {
+    const replay = new ReplayTransport(RECORDING, speed);
+    replay.subscribe(message => received.push(message));
+
+    jest.advanceTimersByTime(elapsed - 1);
+    expect(received.length).toBeLessThan(RECORDING.length);
+    jest.advanceTimersByTime(1);
+    expect(received).toHaveLength(RECORDING.length);
+  });
+
+  test('should send everything without waiting at max speed', () => {
+    const replay = new ReplayTransport(RECORDING, 'max');
+    replay.subscribe(message => received.push(message));
+
+    jest.advanceTimersByTime(0);
+    expect(received).toEqual(RECORDING);
+  });
+
+  test('should hold its position while stopped', () => {
+    const replay = new ReplayTransport(RECORDING);
+    replay.subscribe(message => received.push(message));
+    jest.advanceTimersByTime(500);
+
+    replay.stop();
+    jest.advanceTimersByTime(5000);
+    expect(received).toHaveLength(2);
+
+    replay.start();
+    jest.advanceTimersByTime(499);
+    expect(received).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    expect(received).toHaveLength(RECORDING.length);
+  });
+
+  test('should send the state at the new position after a seek', () => {
+    const replay = new ReplayTransport(RECORDING);
+    replay.subscribe(message => received.push(message));
+    jest.advanceTimersByTime(0);
+    received = [];
+
+    replay.seek(1000);
+    expect(received).toHaveLength(1);
+    const snapshot = received[0].data as BookSnapshot;
+    expect(snapshot.sequence).toBe(2);
+    expect(snapshot.bids.map(({ price }) => price)).toEqual([100, 99]);
+
+    // Back to the start: the first message plays again
+    received = [];
+    replay.seek(0);
+    expect(received).toHaveLength(0);
+    jest.advanceTimersByTime(0);
+    expect(received).toEqual([RECORDING[0]]);
+  });
+
+  test('should send late subscribers the state reached so far', () => {
+    const replay = new ReplayTransport(RECORDING);
+    replay.subscribe(() => {});
+    jest.advanceTimersByTime(1000);
+
+    replay.subscribe(message => received.push(message));
+    expect(received.map(m => m.type)).toEqual(['snapshot', 'trade', 'ticker']);
+  });
+});
+
+describe('Recording and replaying through the store', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should reproduce the recorded book and ticker', () => {
+    const disconnect = useExchangeStore.getState().initializeSocket(
+      new FakeSocket({ symbol: SYMBOL, seed: 11 })
+    );
+    jest.advanceTimersByTime(3000);
+
+    useExchangeStore.getState().startRecording();
+    jest.advanceTimersByTime(10000);
+    const ndjson = useExchangeStore.getState().stopRecording();
+    const { orderBook, ticker } = useExchangeStore.getState();
+
+    const messages = parseRecording(ndjson);
+    expect(messages[0].type).toBe('snapshot');
+
+    useExchangeStore.getState().startReplay(messages);
+    expect(useExchangeStore.getState().orderBook.bids).toHaveLength(0);
+
+    useExchangeStore.getState().setReplaySpeed('max');
+    jest.advanceTimersByTime(0);
+
+    expect(useExchangeStore.getState().orderBook).toEqual(orderBook);
+    expect(useExchangeStore.getState().ticker).toEqual(ticker);
+    expect(useExchangeStore.getState().replay?.isFinished).toBe(true);
+
+    useExchangeStore.getState().stopReplay();
+    expect(useExchangeStore.getState().replay).toBeNull();
+    disconnect();
+  });
+
+  test('should stop the replay while paused rather than hold its messages', () => {
+    const disconnect = useExchangeStore.getState().initializeSocket(
+      new FakeSocket({ symbol: SYMBOL, seed: 11 })
+    );
+    const bidPrices = () => useExchangeStore.getState().orderBook.bids.map(({ price }) => price);
+
+    useExchangeStore.getState().startReplay(RECORDING);
+    jest.advanceTimersByTime(0);
+    expect(bidPrices()).toEqual([100]);
+
+    useExchangeStore.getState().togglePause();
+    jest.advanceTimersByTime(5000);
+    expect(useExchangeStore.getState().pendingUpdates).toBe(0);
+    expect(useExchangeStore.getState().replay?.isFinished).toBe(false);
+
+    // A seek still shows the new position straight away
+    useExchangeStore.getState().seekReplay(500);
+    expect(bidPrices()).toEqual([100, 99]);
+
+    useExchangeStore.getState().togglePause();
+    jest.advanceTimersByTime(499);
+    expect(useExchangeStore.getState().replay?.isFinished).toBe(false);
+    jest.advanceTimersByTime(1);
+    expect(useExchangeStore.getState().replay?.isFinished).toBe(true);
+
+    useExchangeStore.getState().stopReplay();
+    disconnect();
+  });
+});
@@ -0,0 +1,104 @@
+import { FakeSocket } from '../lib/fakeSocket';
+import { DEFAULT_AGENTS } from '../lib/agents';
+import { MarketRegistry, parseSimulationParams } from '../lib/markets';
+import { OrderMatcher } from '../lib/orderMatcher';
+import { createRandom } from '../lib/random';
+import { SCENARIOS } from '../lib/scenarios';
+import type { FakeSocketConfig, WebSocketMessage } from '../types';
+
+// Runs a fresh simulator for `ms` of fake time and returns what it sent
+const record = (config: Partial<FakeSocketConfig>, ms = 5000) => {
+  const feed = new FakeSocket(config);
+  const messages: WebSocketMessage[] = [];
+
+  const unsubscribe = feed.subscribe(message => messages.push(message));
+  jest.advanceTimersByTime(ms);
+  unsubscribe();
+
+  return { feed, messages };
+};
+
+describe('Seeded simulation', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should produce the same sequence for the same seed', () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const values = Array.from({ length: 5 }, () => first());
+
+    expect(values).toEqual(Array.from({ length: 5 }, () => second()));
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(createRandom(43)()).not.toBe(values[0]);
+  });
+
+  test('should replay the same feed for the same seed', () => {
+    const first = record({ seed: 7 });
+    // Rewind the clock so timestamps match too
+    jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    const second = record({ seed: 7 });
+
+    expect(first.messages.length).toBeGreaterThan(1);
+    expect(second.messages).toEqual(first.messages);
+    expect(record({ seed: 8 }).messages).not.toEqual(first.messages);
+  });
+
+  test('should drift upwards in the trending scenario', () => {
+    const { feed } = record({ seed: 3, scenario: 'trending-up' }, 60000);
+
+    expect(feed.getCurrentPrice()).toBeGreaterThan(50000);
+  });
+
+  test('should crash when a jump fires', () => {
+    const { feed } = record({ seed: 3, scenario: 'flash-crash', jumpProbability: 1 }, 1000);
+
+    expect(feed.getCurrentPrice()).toBeLessThan(50000 * 0.9);
+  });
+
+  test('should keep fewer, wider quotes in the illiquid scenario', () => {
+    const matcher = new OrderMatcher();
+    // Makers only, so no taker eats into the quotes being counted
+    const agents = {
+      ...DEFAULT_AGENTS,
+      momentumTraders: { ...DEFAULT_AGENTS.momentumTraders, count: 0 },
+      noiseTraders: { ...DEFAULT_AGENTS.noiseTraders, count: 0 },
+    };
+    const feed = new FakeSocket({ seed: 5, scenario: 'illiquid', agents }, matcher);
+    feed.subscribe(() => {})();
+
+    expect(matcher.getOrders()).toHaveLength(2 * SCENARIOS.illiquid.settings.ordersPerSide);
+    expect(matcher.getOrderBook().spread).toBeGreaterThan(50000 * 0.05);
+  });
+
+  test('should send several updates per interval in bursts', () => {
+    const { messages } = record({ seed: 11, scenario: 'high-frequency' }, 1000);
+    const { messages: calm } = record({ seed: 11, scenario: 'calm' }, 1000);
+
+    expect(messages.length).toBeGreaterThan(calm.length * 10);
+  });
+});
+
+describe('Scenario selection', () => {
+  test('should apply a scenario to every symbol', () => {
+    const registry = new MarketRegistry(undefined, { seed: 1 });
+    registry.setScenario('illiquid');
+
+    expect(registry.getScenario()).toBe('illiquid');
+    expect(registry.getAll().every(({ feed }) => feed.getScenario() === 'illiquid')).toBe(true);
+    expect(registry.getAll().map(({ feed }) => feed.getSeed())).toEqual([1, 2, 3]);
+  });
+
+  test('should read seed and scenario from the query string', () => {
+    expect(parseSimulationParams('?seed=42&scenario=flash-crash')).toEqual({
+      seed: 42,
+      scenario: 'flash-crash',
+    });
+    expect(parseSimulationParams('?seed=abc&scenario=toString')).toEqual({});
+  });
+});
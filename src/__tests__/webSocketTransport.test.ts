@@ -0,0 +1,164 @@
+import { WebSocketTransport } from '../lib/webSocketTransport';
+import type { SocketLike } from '../lib/webSocketTransport';
+import { CompositeTransport, combineConnectionStates, createTransport } from '../lib/transport';
+import { FakeSocket } from '../lib/fakeSocket';
+import { EngineClient } from '../lib/engineClient';
+import type { ConnectionState, WebSocketMessage } from '../types';
+
+class MockSocket implements SocketLike {
+  readyState = 0;
+  onopen: SocketLike['onopen'] = null;
+  onmessage: SocketLike['onmessage'] = null;
+  onclose: SocketLike['onclose'] = null;
+  onerror: SocketLike['onerror'] = null;
+  sent: unknown[] = [];
+  closed = false;
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  open(): void {
+    this.readyState = 1;
+    this.onopen?.(new Event('open'));
+  }
+
+  receive(message: unknown): void {
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(message) }));
+  }
+
+  drop(): void {
+    this.readyState = 3;
+    this.onclose?.(new CloseEvent('close'));
+  }
+}
+
+const tradeMessage: WebSocketMessage = {
+  type: 'trade',
+  symbol: 'BTC-USD',
+  data: { id: 't1', price: 50000, quantity: 1, side: 'buy', timestamp: 0 },
+  timestamp: 0,
+};
+
+describe('WebSocketTransport', () => {
+  let sockets: MockSocket[];
+  let transport: WebSocketTransport;
+  let states: ConnectionState[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sockets = [];
+    states = [];
+    transport = new WebSocketTransport(
+      { url: 'ws://test', heartbeatInterval: 1000, heartbeatTimeout: 3000, reconnectDelay: [100, 400] },
+      () => {
+        const socket = new MockSocket();
+        sockets.push(socket);
+        return socket;
+      }
+    );
+    transport.onStateChange(state => states.push(state));
+  });
+
+  afterEach(() => {
+    transport.stop();
+    jest.useRealTimers();
+  });
+
+  test('should connect on first subscribe and forward messages', () => {
+    const messages: WebSocketMessage[] = [];
+    transport.subscribe(message => messages.push(message));
+
+    expect(transport.getState()).toBe('connecting');
+    sockets[0].open();
+    sockets[0].receive(tradeMessage);
+    sockets[0].receive({ type: 'pong', timestamp: 0 });
+
+    expect(transport.getState()).toBe('open');
+    expect(messages).toEqual([tradeMessage]);
+  });
+
+  test('should reconnect with exponential backoff until the socket opens', () => {
+    transport.subscribe(() => {});
+    sockets[0].open();
+    sockets[0].drop();
+
+    expect(transport.getState()).toBe('reconnecting');
+    jest.advanceTimersByTime(100);
+    expect(sockets).toHaveLength(2);
+
+    sockets[1].drop();
+    jest.advanceTimersByTime(199);
+    expect(sockets).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(3);
+
+    // The third retry would wait 400ms, which is also the cap
+    sockets[2].drop();
+    expect(transport.getReconnectDelay(5)).toBe(400);
+    jest.advanceTimersByTime(400);
+    sockets[3].open();
+    expect(states).toEqual(['connecting', 'open', 'reconnecting', 'open']);
+  });
+
+  test('should ping while open and reconnect after a silent connection', () => {
+    transport.subscribe(() => {});
+    sockets[0].open();
+
+    jest.advanceTimersByTime(1000);
+    expect(sockets[0].sent).toEqual([{ type: 'ping', timestamp: expect.any(Number) }]);
+
+    jest.advanceTimersByTime(3000);
+    expect(sockets[0].closed).toBe(true);
+    expect(transport.getState()).toBe('reconnecting');
+  });
+
+  test('should request snapshots over the socket', () => {
+    transport.subscribe(() => {});
+    sockets[0].open();
+    transport.requestSnapshot('ETH-USD');
+
+    expect(sockets[0].sent).toEqual([{ type: 'snapshot_request', symbol: 'ETH-USD' }]);
+  });
+
+  test('should close without reconnecting when the last subscriber leaves', () => {
+    const unsubscribe = transport.subscribe(() => {});
+    sockets[0].open();
+    unsubscribe();
+    jest.advanceTimersByTime(10000);
+
+    expect(transport.getState()).toBe('closed');
+    expect(sockets).toHaveLength(1);
+  });
+});
+
+describe('Transport selection', () => {
+  test('should report the least healthy state', () => {
+    expect(combineConnectionStates(['open', 'open'])).toBe('open');
+    expect(combineConnectionStates(['open', 'reconnecting', 'connecting'])).toBe('reconnecting');
+    expect(combineConnectionStates([])).toBe('closed');
+  });
+
+  test('should use a real socket only when a URL is given', () => {
+    expect(createTransport('?ws=ws://localhost:8081')).toBeInstanceOf(WebSocketTransport);
+    expect(createTransport('')).toBeInstanceOf(EngineClient);
+  });
+
+  test('should treat a simulated feed as open while subscribed', () => {
+    const feed = new FakeSocket();
+    const composite = new CompositeTransport([feed]);
+    const states: ConnectionState[] = [];
+    composite.onStateChange(state => states.push(state));
+
+    const unsubscribe = composite.subscribe(() => {});
+    composite.stop();
+    expect(composite.getState()).toBe('open');
+    unsubscribe();
+
+    expect(states).toEqual(['open', 'closed']);
+  });
+});
@@ -0,0 +1,49 @@
+import React from 'react';
+import { useExchangeStore } from '../store/exchangeStore';
+import { getAssetDecimals } from '../lib/accounts';
+
+interface BalancesPanelProps {
+  className?: string;
+}
+
+export const BalancesPanel: React.FC<BalancesPanelProps> = ({ className = '' }) => {
+  const { balances, symbols } = useExchangeStore();
+  // Quote assets first, then each symbol's base asset in the selector's order
+  const assets = [...new Set(symbols.flatMap(spec => [spec.quoteAsset, spec.baseAsset]))].filter(
+    asset => balances[asset]
+  );
+
+  return (
+    <div className={`bg-slate-900 rounded-lg border border-slate-700 flex flex-col ${className}`}>
+      <div className="p-4 border-b border-slate-700">
+        <h2 className="text-lg font-semibold text-white">Balances</h2>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-400">
+            <th scope="col" className="px-3 py-2 text-left font-medium">Asset</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">Available</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">Reserved</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {assets.map(asset => {
+            const { available, reserved, total } = balances[asset];
+            const decimals = getAssetDecimals(asset, symbols);
+            return (
+              <tr key={asset} className="hover:bg-slate-800 transition-colors">
+                <th scope="row" className="px-3 py-2 text-left font-medium text-white">{asset}</th>
+                <td className="px-3 py-2 text-right font-mono text-gray-300">{available.toFixed(decimals)}</td>
+                <td className={`px-3 py-2 text-right font-mono ${reserved > 0 ? 'text-yellow-400' : 'text-gray-500'}`}>
+                  {reserved.toFixed(decimals)}
+                </td>
+                <td className="px-3 py-2 text-right font-mono text-gray-300">{total.toFixed(decimals)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,16 +1,18 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { useExchangeStore } from '../store/exchangeStore';
-import type { OrderBookLevel } from '../types';
+import { formatPrice, formatQuantity } from '../lib/instrument';
+import type { InstrumentSpec, OrderBookLevel } from '../types';
 
 interface DepthBarProps {
   level: OrderBookLevel;
   side: 'buy' | 'sell';
   maxTotal: number;
   index: number;
+  instrument: InstrumentSpec;
 }
 
-const DepthBar: React.FC<DepthBarProps> = ({ level, side, maxTotal, index }) => {
+const DepthBar: React.FC<DepthBarProps> = ({ level, side, maxTotal, index, instrument }) => {
   const heightPercentage = Math.max(10, (level.quantity / maxTotal) * 100);
 
   return (
@@ -26,9 +28,9 @@ const DepthBar: React.FC<DepthBarProps> = ({ level, side, maxTotal, index }) =>
       {/* Tooltip */}
       <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 opacity-0 group-hover:opacity-100 transition-opacity z-10">
         <div className="bg-slate-800 text-white text-xs rounded px-2 py-1 whitespace-nowrap border border-slate-600">
-          <div>Price: {level.price.toFixed(2)}</div>
-          <div>Size: {level.quantity.toFixed(4)}</div>
-          <div>Total: {level.total.toFixed(4)}</div>
+          <div>Price: {formatPrice(level.price, instrument)}</div>
+          <div>Size: {formatQuantity(level.quantity, instrument)}</div>
+          <div>Total: {formatQuantity(level.total, instrument)}</div>
         </div>
       </div>
     </motion.div>
@@ -40,7 +42,7 @@ interface DepthChartProps {
 }
 
 export const DepthChart: React.FC<DepthChartProps> = ({ className = '' }) => {
-  const { orderBook } = useExchangeStore();
+  const { orderBook, instrument } = useExchangeStore();
   const { bids, asks } = orderBook;
 
   // Take top 15 levels from each side for cleaner visualization
@@ -80,7 +82,7 @@ export const DepthChart: React.FC<DepthChartProps> = ({ className = '' }) => {
             </div>
           </div>
           <div className="text-gray-400">
-            Max: {maxTotal.toFixed(2)}
+            Max: {formatQuantity(maxTotal, instrument)}
           </div>
         </div>
       </div>
@@ -96,6 +98,7 @@ export const DepthChart: React.FC<DepthChartProps> = ({ className = '' }) => {
                   side="buy"
                   maxTotal={maxTotal}
                   index={index}
+                  instrument={instrument}
                 />
               </div>
             ))}
@@ -113,6 +116,7 @@ export const DepthChart: React.FC<DepthChartProps> = ({ className = '' }) => {
                   side="sell"
                   maxTotal={maxTotal}
                   index={index}
+                  instrument={instrument}
                 />
               </div>
             ))}
@@ -124,17 +128,17 @@ export const DepthChart: React.FC<DepthChartProps> = ({ className = '' }) => {
           <div className="flex-1 text-center">
             {displayBids.length > 0 && (
               <span className="text-green-400">
-                {displayBids[displayBids.length - 1]?.price.toFixed(2)}
+                {formatPrice(displayBids[displayBids.length - 1].price, instrument)}
               </span>
             )}
           </div>
           <div className="px-4 text-yellow-400 font-semibold">
-            {orderBook.midPrice.toFixed(2)}
+            {formatPrice(orderBook.midPrice, instrument)}
           </div>
           <div className="flex-1 text-center">
             {displayAsks.length > 0 && (
               <span className="text-red-400">
-                {displayAsks[displayAsks.length - 1]?.price.toFixed(2)}
+                {formatPrice(displayAsks[displayAsks.length - 1].price, instrument)}
               </span>
             )}
           </div>
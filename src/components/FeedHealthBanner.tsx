@@ -0,0 +1,31 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useExchangeStore } from '../store/exchangeStore';
+
+interface FeedHealthBannerProps {
+  className?: string;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export const FeedHealthBanner: React.FC<FeedHealthBannerProps> = ({ className = '' }) => {
+  const { feedHealth, activeSymbol, bookSequences, isConnected } = useExchangeStore();
+  const health = feedHealth[activeSymbol];
+  if (!health?.isDegraded) return null;
+
+  const isResyncing = isConnected && bookSequences[activeSymbol] === undefined;
+
+  return (
+    <div
+      role="status"
+      className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm bg-yellow-900/40 text-yellow-200 border border-yellow-700 ${className}`}
+    >
+      <AlertTriangle size={16} />
+      <span>
+        Degraded {activeSymbol} feed: {plural(health.gaps, 'gap')},{' '}
+        {plural(health.duplicates, 'duplicate')}, {plural(health.stale, 'stale message')}.{' '}
+        {isResyncing ? 'Resyncing the order book...' : 'Late and repeated data was ignored.'}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { Pencil, Check, X, Trash2 } from 'lucide-react';
+import { useExchangeStore } from '../store/exchangeStore';
+import { checkInstrumentRules, formatPrice, formatQuantity, getDecimals } from '../lib/instrument';
+import type { ExecutionReport, InstrumentSpec, Order, OrderAmendment } from '../types';
+
+// How often order ages are refreshed
+const AGE_REFRESH_MS = 1000;
+
+const formatAge = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+interface OpenOrderRowProps {
+  order: Order;
+  // Latest execution report: the order's full size and what has filled
+  status?: ExecutionReport;
+  instrument: InstrumentSpec;
+  now: number;
+  onAmend: (orderId: string, changes: OrderAmendment) => void;
+  onCancel: (orderId: string) => void;
+}
+
+const OpenOrderRow: React.FC<OpenOrderRowProps> = ({
+  order,
+  status,
+  instrument,
+  now,
+  onAmend,
+  onCancel,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [price, setPrice] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setPrice(order.price.toFixed(getDecimals(instrument.tickSize)));
+    setQuantity(order.quantity.toFixed(getDecimals(instrument.lotSize)));
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newPrice = parseFloat(price);
+    const newQuantity = parseFloat(quantity);
+
+    if (!(newPrice > 0) || !(newQuantity > 0)) {
+      setError('Price and quantity must be greater than 0');
+      return;
+    }
+
+    const [violation] = checkInstrumentRules(instrument, { price: newPrice, quantity: newQuantity });
+    if (violation) {
+      setError(violation.message);
+      return;
+    }
+
+    onAmend(order.id, { price: newPrice, quantity: newQuantity });
+    setIsEditing(false);
+  };
+
+  const sideColor = order.side === 'buy' ? 'text-buy' : 'text-sell';
+  // Stops wait off the book until they trigger, so only cancelling applies
+  const isStop = order.type === 'stop' || order.type === 'stop-limit';
+
+  if (isEditing) {
+    return (
+      <form onSubmit={handleSave} className="px-3 py-2 text-sm bg-slate-800">
+        <div className="flex items-center gap-2">
+          <span className={`w-10 text-xs font-medium ${sideColor}`}>{order.side.toUpperCase()}</span>
+          <input
+            type="number"
+            step={instrument.tickSize}
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            className="w-24 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label={`New price for order ${order.id}`}
+          />
+          <input
+            type="number"
+            step={instrument.lotSize}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            className="w-24 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label={`New quantity for order ${order.id}`}
+          />
+          <button
+            type="submit"
+            className="text-green-400 hover:text-green-300 transition-colors p-1 rounded"
+            aria-label="Save changes"
+          >
+            <Check size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsEditing(false)}
+            className="text-gray-400 hover:text-white transition-colors p-1 rounded"
+            aria-label="Discard changes"
+          >
+            <X size={16} />
+          </button>
+        </div>
+        {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+      </form>
+    );
+  }
+
+  // Without a report yet, nothing has filled
+  const originalQuantity = status?.quantity ?? order.quantity;
+  const filledQuantity = status?.cumQuantity ?? 0;
+  const fillPercent = originalQuantity > 0 ? (filledQuantity / originalQuantity) * 100 : 0;
+
+  return (
+    <div className="flex justify-between items-center gap-2 px-3 py-2 text-sm hover:bg-slate-800 transition-colors">
+      <span className={`w-10 text-xs font-medium ${sideColor}`}>{order.side.toUpperCase()}</span>
+      {isStop ? (
+        <span
+          className={`w-24 text-right font-mono ${sideColor}`}
+          title={
+            order.type === 'stop-limit'
+              ? `Limit ${formatPrice(order.price, instrument)} once triggered`
+              : 'Market once triggered'
+          }
+        >
+          Stop {formatPrice(order.stopPrice ?? 0, instrument)}
+        </span>
+      ) : (
+        <span className={`w-24 text-right font-mono ${sideColor}`}>{formatPrice(order.price, instrument)}</span>
+      )}
+      <span className="w-20 text-right text-gray-300 font-mono" title="Original quantity">
+        {formatQuantity(originalQuantity, instrument)}
+      </span>
+      <span className="w-20 text-right text-white font-mono" title="Remaining quantity">
+        {formatQuantity(order.quantity, instrument)}
+      </span>
+      <span className="w-12 text-right text-gray-400 font-mono">{fillPercent.toFixed(0)}%</span>
+      <span className="w-14 text-right text-gray-400 font-mono">{formatAge(now - (order.placedAt ?? order.timestamp))}</span>
+      <div className="w-12 flex items-center justify-end">
+        {!isStop && (
+          <button
+            onClick={startEditing}
+            className="text-gray-400 hover:text-blue-400 transition-colors p-1 rounded"
+            aria-label={`Edit order ${order.id}`}
+            title="Edit order"
+          >
+            <Pencil size={14} />
+          </button>
+        )}
+        <button
+          onClick={() => onCancel(order.id)}
+          className="text-gray-400 hover:text-red-400 transition-colors p-1 rounded"
+          aria-label={`Cancel order ${order.id}`}
+          title="Cancel order"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface OpenOrdersProps {
+  className?: string;
+}
+
+export const OpenOrders: React.FC<OpenOrdersProps> = ({ className = '' }) => {
+  const { openOrders, orderStatuses, amendOrder, cancelOrder, cancelAllOrders, instrument } =
+    useExchangeStore();
+  const [now, setNow] = useState(() => Date.now());
+  const hasSide = (side: Order['side']) => openOrders.some(order => order.side === side);
+
+  // Ages move on even when the orders do not
+  useEffect(() => {
+    if (openOrders.length === 0) return;
+    const intervalId = setInterval(() => setNow(Date.now()), AGE_REFRESH_MS);
+    return () => clearInterval(intervalId);
+  }, [openOrders.length]);
+
+  const bulkButtonClass =
+    'px-2 py-1 rounded-md text-xs border border-slate-600 text-gray-300 hover:border-red-500 hover:text-red-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className={`bg-slate-900 rounded-lg border border-slate-700 flex flex-col ${className}`}>
+      <div className="flex items-center justify-between p-4 border-b border-slate-700">
+        <h2 className="text-lg font-semibold text-white">Open Orders</h2>
+        <div role="group" aria-label="Cancel orders" className="flex items-center gap-2">
+          <button
+            onClick={() => cancelAllOrders('buy')}
+            disabled={!hasSide('buy')}
+            className={bulkButtonClass}
+          >
+            Cancel buys
+          </button>
+          <button
+            onClick={() => cancelAllOrders('sell')}
+            disabled={!hasSide('sell')}
+            className={bulkButtonClass}
+          >
+            Cancel sells
+          </button>
+          <button
+            onClick={() => cancelAllOrders()}
+            disabled={openOrders.length === 0}
+            className={bulkButtonClass}
+            title="Cancel every open order (Shift+C)"
+          >
+            Cancel all
+          </button>
+        </div>
+      </div>
+      {openOrders.length > 0 && (
+        <div className="flex justify-between items-center gap-2 px-3 pt-2 text-xs text-gray-500">
+          <span className="w-10">Side</span>
+          <span className="w-24 text-right">Price</span>
+          <span className="w-20 text-right">Original</span>
+          <span className="w-20 text-right">Remaining</span>
+          <span className="w-12 text-right">Filled</span>
+          <span className="w-14 text-right">Age</span>
+          <span className="w-12" aria-hidden="true" />
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {openOrders.length === 0 ? (
+          <div className="flex items-center justify-center h-20 text-gray-500">
+            No open orders
+          </div>
+        ) : (
+          openOrders.map(order => (
+            <OpenOrderRow
+              key={order.id}
+              order={order}
+              status={orderStatuses[order.id]}
+              instrument={instrument}
+              now={now}
+              onAmend={amendOrder}
+              onCancel={cancelOrder}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,18 @@
 import React, { memo } from 'react';
 import { motion } from 'framer-motion';
-import type { OrderBookLevel } from '../types';
+import type { InstrumentSpec, OrderBookLevel } from '../types';
 import { useExchangeStore } from '../store/exchangeStore';
+import { formatPrice, formatQuantity } from '../lib/instrument';
 
 interface OrderBookRowProps {
   level: OrderBookLevel;
   side: 'buy' | 'sell';
   maxTotal: number;
+  instrument: InstrumentSpec;
   isHighlighted?: boolean;
 }
 
-const OrderBookRow = memo<OrderBookRowProps>(({ level, side, maxTotal, isHighlighted = false }) => {
+const OrderBookRow = memo<OrderBookRowProps>(({ level, side, maxTotal, instrument, isHighlighted = false }) => {
   const depthPercentage = (level.total / maxTotal) * 100;
   
   return (
@@ -32,13 +34,13 @@ const OrderBookRow = memo<OrderBookRowProps>(({ level, side, maxTotal, isHighlig
       
       <div className="relative z-10 flex justify-between w-full">
         <span className={`font-mono ${side === 'buy' ? 'text-buy' : 'text-sell'}`}>
-          {level.price.toFixed(2)}
+          {formatPrice(level.price, instrument)}
         </span>
         <span className="text-gray-300 font-mono">
-          {level.quantity.toFixed(4)}
+          {formatQuantity(level.quantity, instrument)}
         </span>
         <span className="text-gray-400 font-mono text-xs">
-          {level.total.toFixed(4)}
+          {formatQuantity(level.total, instrument)}
         </span>
       </div>
     </motion.div>
@@ -52,7 +54,7 @@ interface OrderBookProps {
 }
 
 export const OrderBook: React.FC<OrderBookProps> = ({ className = '' }) => {
-  const { orderBook } = useExchangeStore();
+  const { orderBook, instrument } = useExchangeStore();
   const { bids, asks, midPrice, spread } = orderBook;
 
   const maxBidTotal = Math.max(...bids.map(b => b.total), 0);
@@ -65,7 +67,7 @@ export const OrderBook: React.FC<OrderBookProps> = ({ className = '' }) => {
         <div className="flex justify-between items-center mb-2">
           <h2 className="text-lg font-semibold text-white">Order Book</h2>
           <div className="text-sm text-gray-400">
-            Spread: {spread.toFixed(2)}
+            Spread: {formatPrice(spread, instrument)}
           </div>
         </div>
         
@@ -85,6 +87,7 @@ export const OrderBook: React.FC<OrderBookProps> = ({ className = '' }) => {
               level={ask}
               side="sell"
               maxTotal={maxTotal}
+              instrument={instrument}
             />
           ))}
         </div>
@@ -93,7 +96,7 @@ export const OrderBook: React.FC<OrderBookProps> = ({ className = '' }) => {
         <div className="mid-price-row bg-slate-800 px-3 py-2 text-center flex-shrink-0">
           <div className="text-gray-300 font-mono text-sm">
             Mid Price: <span className="text-yellow-400 font-semibold">
-              {midPrice.toFixed(2)}
+              {formatPrice(midPrice, instrument)}
             </span>
           </div>
         </div>
@@ -106,6 +109,7 @@ export const OrderBook: React.FC<OrderBookProps> = ({ className = '' }) => {
               level={bid}
               side="buy"
               maxTotal={maxTotal}
+              instrument={instrument}
             />
           ))}
         </div>
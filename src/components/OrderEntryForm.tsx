@@ -3,6 +3,54 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { X, TrendingUp, TrendingDown } from 'lucide-react';
 import { useExchangeStore } from '../store/exchangeStore';
 import { useFocusTrap } from '../hooks/useFocusTrap';
+import { checkInstrumentRules, formatPrice } from '../lib/instrument';
+import { checkFunds, getAssetDecimals, getReservation, getSweepPrice } from '../lib/accounts';
+import { getFee, getFeeRate, getFillTier } from '../lib/fees';
+import type { Liquidity, OrderBook, OrderFormData, OrderType, TimeInForce } from '../types';
+
+const ORDER_TYPE_OPTIONS: { value: OrderType; label: string }[] = [
+  { value: 'market', label: 'Market' },
+  { value: 'limit', label: 'Limit' },
+  { value: 'stop', label: 'Stop' },
+  { value: 'stop-limit', label: 'Stop Limit' },
+];
+
+const TIME_IN_FORCE_OPTIONS: { value: TimeInForce; label: string }[] = [
+  { value: 'gtc', label: 'Good till cancelled (GTC)' },
+  { value: 'ioc', label: 'Immediate or cancel (IOC)' },
+  { value: 'fok', label: 'Fill or kill (FOK)' },
+  { value: 'gtd', label: 'Good till date (GTD)' },
+  { value: 'post-only', label: 'Post only' },
+];
+
+/**
+ * Where the order would fill if it were sent now. Limits that rest are makers
+ * and are priced at their limit; everything that crosses the book is a taker.
+ */
+const estimateExecution = (
+  order: OrderFormData,
+  orderBook: OrderBook
+): { price: number; liquidity: Liquidity } | null => {
+  const quantity = parseFloat(order.quantity);
+  const opposite = order.side === 'buy' ? orderBook.asks : orderBook.bids;
+  let price: number | undefined;
+  let liquidity: Liquidity = 'taker';
+
+  if (order.type === 'limit') {
+    price = parseFloat(order.price);
+    const best = opposite[0]?.price;
+    const crosses = best !== undefined && (order.side === 'buy' ? price >= best : price <= best);
+    liquidity = crosses && order.timeInForce !== 'post-only' ? 'taker' : 'maker';
+  } else if (order.type === 'stop-limit') {
+    price = parseFloat(order.price);
+  } else if (order.type === 'stop') {
+    price = parseFloat(order.stopPrice ?? '');
+  } else {
+    price = getSweepPrice(opposite, quantity);
+  }
+
+  return quantity > 0 && price !== undefined && price > 0 ? { price, liquidity } : null;
+};
 
 interface OrderEntryFormProps {
   className?: string;
@@ -13,13 +61,33 @@ export const OrderEntryForm: React.FC<OrderEntryFormProps> = ({ className = '' }
     currentOrder,
     isOrderModalOpen,
     orderBook,
+    trades,
+    instrument,
+    activeSymbol,
+    symbols,
+    balances,
+    fills,
+    feeSchedule,
     updateOrderForm,
     setOrderModalOpen,
     submitOrder
   } = useExchangeStore();
 
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const timeInForce = currentOrder.timeInForce ?? 'gtc';
+  const hasLimitPrice = currentOrder.type === 'limit' || currentOrder.type === 'stop-limit';
+  const isStop = currentOrder.type === 'stop' || currentOrder.type === 'stop-limit';
   const focusTrapRef = useFocusTrap(isOrderModalOpen);
+  const spec = symbols.find(s => s.symbol === activeSymbol);
+  // Buys spend the quote asset, sells the base asset
+  const fundingAsset = spec && (currentOrder.side === 'buy' ? spec.quoteAsset : spec.baseAsset);
+  const fundingBalance = fundingAsset ? balances[fundingAsset] : undefined;
+  // Our own fills set the tier, as they do in the engine
+  const feeTier = getFillTier(fills, feeSchedule);
+  const execution = estimateExecution(currentOrder, orderBook);
+  const feeRate = execution ? getFeeRate(feeTier, execution.liquidity) : 0;
+  const estimatedFee =
+    execution && getFee(parseFloat(currentOrder.quantity) * execution.price, feeRate, instrument);
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -28,10 +96,84 @@ export const OrderEntryForm: React.FC<OrderEntryFormProps> = ({ className = '' }
       newErrors.quantity = 'Quantity must be greater than 0';
     }
 
-    if (currentOrder.type === 'limit' && (!currentOrder.price || parseFloat(currentOrder.price) <= 0)) {
+    if (hasLimitPrice && (!currentOrder.price || parseFloat(currentOrder.price) <= 0)) {
       newErrors.price = 'Price must be greater than 0 for limit orders';
     }
 
+    if (isStop) {
+      const stopPrice = parseFloat(currentOrder.stopPrice ?? '');
+      const lastPrice = trades?.[0]?.price;
+
+      if (!(stopPrice > 0)) {
+        newErrors.stopPrice = 'Stop price must be greater than 0';
+      } else if (lastPrice && currentOrder.side === 'buy' && stopPrice <= lastPrice) {
+        newErrors.stopPrice = `Buy stop price must be above the last price (${lastPrice})`;
+      } else if (lastPrice && currentOrder.side === 'sell' && stopPrice >= lastPrice) {
+        newErrors.stopPrice = `Sell stop price must be below the last price (${lastPrice})`;
+      }
+    }
+
+    const hasDisplayQuantity = hasLimitPrice && !!currentOrder.displayQuantity;
+    const displayQuantity = parseFloat(currentOrder.displayQuantity ?? '');
+    if (hasDisplayQuantity && !(displayQuantity > 0)) {
+      newErrors.displayQuantity = 'Display quantity must be greater than 0';
+    }
+
+    const hasProtectionPrice = !hasLimitPrice && !!currentOrder.protectionPrice;
+    const protectionPrice = parseFloat(currentOrder.protectionPrice ?? '');
+    if (!hasLimitPrice && currentOrder.maxSlippageBps && !(parseFloat(currentOrder.maxSlippageBps) >= 0)) {
+      newErrors.maxSlippageBps = 'Max slippage cannot be negative';
+    }
+    if (hasProtectionPrice && !(protectionPrice > 0)) {
+      newErrors.protectionPrice = 'Protection price must be greater than 0';
+    }
+
+    // Tick size, lot size and minimums only apply once the basic checks pass
+    const quantity = parseFloat(currentOrder.quantity);
+    const price = parseFloat(currentOrder.price);
+    const stopPrice = parseFloat(currentOrder.stopPrice ?? '');
+    if (Object.keys(newErrors).length === 0) {
+      checkInstrumentRules(instrument, {
+        price: hasLimitPrice ? price : undefined,
+        stopPrice: isStop ? stopPrice : undefined,
+        protectionPrice: hasProtectionPrice ? protectionPrice : undefined,
+        quantity,
+        displayQuantity: hasDisplayQuantity ? displayQuantity : undefined,
+      }).forEach(violation => {
+        if (!newErrors[violation.field]) {
+          newErrors[violation.field] = violation.message;
+        }
+      });
+    }
+
+    // Checked last: the cost needs a valid price and quantity
+    if (Object.keys(newErrors).length === 0 && spec) {
+      const reservation = getReservation(
+        {
+          side: currentOrder.side,
+          type: currentOrder.type,
+          quantity,
+          price: hasLimitPrice ? price : 0,
+          stopPrice: isStop ? stopPrice : undefined,
+          protectionPrice: hasProtectionPrice ? protectionPrice : undefined,
+        },
+        spec,
+        getSweepPrice(orderBook.asks, quantity),
+        feeTier.takerRate
+      );
+      const shortfall = checkFunds(reservation, balances, symbols);
+      if (shortfall) {
+        newErrors.quantity = shortfall;
+      }
+    }
+
+    if (hasLimitPrice && timeInForce === 'gtd') {
+      const expireTime = currentOrder.expireTime ? new Date(currentOrder.expireTime).getTime() : NaN;
+      if (!(expireTime > Date.now())) {
+        newErrors.expireTime = 'Expiry time must be in the future';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -138,33 +280,48 @@ export const OrderEntryForm: React.FC<OrderEntryFormProps> = ({ className = '' }
                 </div>
 
                 {/* Order Type */}
-                <div className="grid grid-cols-2 gap-2">
-                  <button
-                    type="button"
-                    onClick={() => updateOrderForm({ type: 'market' })}
-                    className={`p-3 rounded-lg border transition-colors ${
-                      currentOrder.type === 'market'
-                        ? 'bg-blue-600 border-blue-500 text-white'
-                        : 'border-slate-600 text-gray-400 hover:border-blue-500 hover:text-blue-400'
-                    }`}
-                  >
-                    Market
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => updateOrderForm({ type: 'limit' })}
-                    className={`p-3 rounded-lg border transition-colors ${
-                      currentOrder.type === 'limit'
-                        ? 'bg-blue-600 border-blue-500 text-white'
-                        : 'border-slate-600 text-gray-400 hover:border-blue-500 hover:text-blue-400'
-                    }`}
-                  >
-                    Limit
-                  </button>
+                <div className="grid grid-cols-4 gap-2">
+                  {ORDER_TYPE_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => updateOrderForm({ type: option.value })}
+                      className={`p-3 rounded-lg border text-sm transition-colors ${
+                        currentOrder.type === option.value
+                          ? 'bg-blue-600 border-blue-500 text-white'
+                          : 'border-slate-600 text-gray-400 hover:border-blue-500 hover:text-blue-400'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
                 </div>
 
+                {/* Stop Price Input (only for stop orders) */}
+                {isStop && (
+                  <div>
+                    <label htmlFor="stopPrice" className="block text-sm font-medium text-gray-300 mb-2">
+                      Stop Price
+                    </label>
+                    <input
+                      id="stopPrice"
+                      type="number"
+                      step={instrument.tickSize}
+                      value={currentOrder.stopPrice ?? ''}
+                      onChange={(e) => updateOrderForm({ stopPrice: e.target.value })}
+                      className={`w-full px-3 py-2 bg-slate-700 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        errors.stopPrice ? 'border-red-500' : 'border-slate-600'
+                      }`}
+                      placeholder="0.00"
+                    />
+                    {errors.stopPrice && (
+                      <p className="mt-1 text-sm text-red-400">{errors.stopPrice}</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Price Input (only for limit orders) */}
-                {currentOrder.type === 'limit' && (
+                {hasLimitPrice && (
                   <div>
                     <div className="flex justify-between items-center mb-2">
                       <label htmlFor="price" className="block text-sm font-medium text-gray-300">
@@ -181,7 +338,7 @@ export const OrderEntryForm: React.FC<OrderEntryFormProps> = ({ className = '' }
                     <input
                       id="price"
                       type="number"
-                      step="0.01"
+                      step={instrument.tickSize}
                       value={currentOrder.price}
                       onChange={(e) => updateOrderForm({ price: e.target.value })}
                       className={`w-full px-3 py-2 bg-slate-700 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
@@ -195,6 +352,46 @@ export const OrderEntryForm: React.FC<OrderEntryFormProps> = ({ className = '' }
                   </div>
                 )}
 
+                {/* Time in Force (only for limit orders) */}
+                {hasLimitPrice && (
+                  <div>
+                    <label htmlFor="timeInForce" className="block text-sm font-medium text-gray-300 mb-2">
+                      Time in Force
+                    </label>
+                    <select
+                      id="timeInForce"
+                      value={timeInForce}
+                      onChange={(e) => updateOrderForm({ timeInForce: e.target.value as TimeInForce })}
+                      className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {TIME_IN_FORCE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    {timeInForce === 'gtd' && (
+                      <div className="mt-2">
+                        <label htmlFor="expireTime" className="block text-sm font-medium text-gray-300 mb-2">
+                          Expires At
+                        </label>
+                        <input
+                          id="expireTime"
+                          type="datetime-local"
+                          value={currentOrder.expireTime ?? ''}
+                          onChange={(e) => updateOrderForm({ expireTime: e.target.value })}
+                          className={`w-full px-3 py-2 bg-slate-700 border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                            errors.expireTime ? 'border-red-500' : 'border-slate-600'
+                          }`}
+                        />
+                        {errors.expireTime && (
+                          <p className="mt-1 text-sm text-red-400">{errors.expireTime}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Quantity Input */}
                 <div>
                   <label htmlFor="quantity" className="block text-sm font-medium text-gray-300 mb-2">
@@ -203,7 +400,7 @@ export const OrderEntryForm: React.FC<OrderEntryFormProps> = ({ className = '' }
                   <input
                     id="quantity"
                     type="number"
-                    step="0.0001"
+                    step={instrument.lotSize}
                     value={currentOrder.quantity}
                     onChange={(e) => updateOrderForm({ quantity: e.target.value })}
                     className={`w-full px-3 py-2 bg-slate-700 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
@@ -211,13 +408,84 @@ export const OrderEntryForm: React.FC<OrderEntryFormProps> = ({ className = '' }
                     }`}
                     placeholder="0.0000"
                   />
-                  {errors.quantity && (
+                  {errors.quantity ? (
                     <p className="mt-1 text-sm text-red-400">{errors.quantity}</p>
+                  ) : fundingAsset && (
+                    <p className="mt-1 text-xs text-gray-400">
+                      Available: {(fundingBalance?.available ?? 0).toFixed(getAssetDecimals(fundingAsset, symbols))}{' '}
+                      {fundingAsset}
+                    </p>
                   )}
                 </div>
 
+                {/* Slippage Protection (optional, market and stop orders) */}
+                {!hasLimitPrice && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label htmlFor="maxSlippageBps" className="block text-sm font-medium text-gray-300 mb-2">
+                        Max Slippage (bps)
+                      </label>
+                      <input
+                        id="maxSlippageBps"
+                        type="number"
+                        value={currentOrder.maxSlippageBps ?? ''}
+                        onChange={(e) => updateOrderForm({ maxSlippageBps: e.target.value })}
+                        className={`w-full px-3 py-2 bg-slate-700 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                          errors.maxSlippageBps ? 'border-red-500' : 'border-slate-600'
+                        }`}
+                        placeholder="None"
+                      />
+                      {errors.maxSlippageBps && (
+                        <p className="mt-1 text-sm text-red-400">{errors.maxSlippageBps}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="protectionPrice" className="block text-sm font-medium text-gray-300 mb-2">
+                        Protection Price
+                      </label>
+                      <input
+                        id="protectionPrice"
+                        type="number"
+                        step={instrument.tickSize}
+                        value={currentOrder.protectionPrice ?? ''}
+                        onChange={(e) => updateOrderForm({ protectionPrice: e.target.value })}
+                        className={`w-full px-3 py-2 bg-slate-700 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                          errors.protectionPrice ? 'border-red-500' : 'border-slate-600'
+                        }`}
+                        placeholder="None"
+                      />
+                      {errors.protectionPrice && (
+                        <p className="mt-1 text-sm text-red-400">{errors.protectionPrice}</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* Display Quantity Input (optional iceberg peak for limit orders) */}
+                {hasLimitPrice && (
+                  <div>
+                    <label htmlFor="displayQuantity" className="block text-sm font-medium text-gray-300 mb-2">
+                      Display Quantity <span className="text-gray-500">(optional)</span>
+                    </label>
+                    <input
+                      id="displayQuantity"
+                      type="number"
+                      step={instrument.lotSize}
+                      value={currentOrder.displayQuantity ?? ''}
+                      onChange={(e) => updateOrderForm({ displayQuantity: e.target.value })}
+                      className={`w-full px-3 py-2 bg-slate-700 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        errors.displayQuantity ? 'border-red-500' : 'border-slate-600'
+                      }`}
+                      placeholder="Show full quantity"
+                    />
+                    {errors.displayQuantity && (
+                      <p className="mt-1 text-sm text-red-400">{errors.displayQuantity}</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Order Summary */}
-                {currentOrder.quantity && (currentOrder.type === 'market' || currentOrder.price) && (
+                {currentOrder.quantity && (!hasLimitPrice || currentOrder.price) && (
                   <div className="bg-slate-700 p-3 rounded-lg">
                     <div className="text-sm text-gray-300">
                       <div className="flex justify-between">
@@ -234,17 +502,44 @@ export const OrderEntryForm: React.FC<OrderEntryFormProps> = ({ className = '' }
                         <span>Quantity:</span>
                         <span>{currentOrder.quantity}</span>
                       </div>
-                      {currentOrder.type === 'limit' && (
+                      {hasLimitPrice && currentOrder.displayQuantity && (
+                        <div className="flex justify-between">
+                          <span>Display Quantity:</span>
+                          <span>{currentOrder.displayQuantity}</span>
+                        </div>
+                      )}
+                      {isStop && (
+                        <div className="flex justify-between">
+                          <span>Stop Price:</span>
+                          <span>${currentOrder.stopPrice}</span>
+                        </div>
+                      )}
+                      {hasLimitPrice && (
                         <div className="flex justify-between">
                           <span>Price:</span>
                           <span>${currentOrder.price}</span>
                         </div>
                       )}
-                      {currentOrder.type === 'limit' && currentOrder.price && (
+                      {hasLimitPrice && (
+                        <div className="flex justify-between">
+                          <span>Time in Force:</span>
+                          <span>{timeInForce.toUpperCase()}</span>
+                        </div>
+                      )}
+                      {execution && estimatedFee !== null && (
+                        <div className="flex justify-between">
+                          <span>
+                            Est. {estimatedFee < 0 ? 'Rebate' : 'Fee'} ({execution.liquidity},{' '}
+                            {(feeRate * 100).toFixed(2)}%):
+                          </span>
+                          <span>${Math.abs(estimatedFee).toFixed(2)}</span>
+                        </div>
+                      )}
+                      {hasLimitPrice && currentOrder.price && (
                         <div className="flex justify-between font-semibold pt-2 border-t border-slate-600 mt-2">
                           <span>Total:</span>
                           <span>
-                            ${(parseFloat(currentOrder.quantity) * parseFloat(currentOrder.price)).toFixed(2)}
+                            ${formatPrice(parseFloat(currentOrder.quantity) * parseFloat(currentOrder.price), instrument)}
                           </span>
                         </div>
                       )}
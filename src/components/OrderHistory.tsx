@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Search } from 'lucide-react';
+import { useExchangeStore } from '../store/exchangeStore';
+import { formatPrice, formatQuantity, DEFAULT_INSTRUMENT } from '../lib/instrument';
+import { ORDER_REASON_MESSAGES } from '../lib/orderMatcher';
+import type { Fill, OrderHistoryEntry, OrderStatus } from '../types';
+
+type HistoryTab = 'fills' | 'orders';
+
+const STATUS_COLORS: Partial<Record<OrderStatus, string>> = {
+  filled: 'text-buy',
+  rejected: 'text-sell',
+};
+
+const STATUS_LABELS: Partial<Record<OrderStatus, string>> = {
+  filled: 'Filled',
+  cancelled: 'Cancelled',
+  rejected: 'Rejected',
+  expired: 'Expired',
+};
+
+// Every term must appear in one of the row's fields, so "btc sell" narrows as expected
+const matchesSearch = (fields: string[], query: string): boolean => {
+  const haystack = fields.join(' ').toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(term => haystack.includes(term));
+};
+
+const fillFields = (fill: Fill): string[] => [
+  fill.symbol,
+  fill.orderId,
+  fill.id,
+  fill.side,
+  fill.liquidity,
+];
+
+const orderFields = (entry: OrderHistoryEntry): string[] => [
+  entry.symbol,
+  entry.orderId,
+  entry.side,
+  entry.type,
+  entry.status,
+  entry.reason ?? '',
+];
+
+interface OrderHistoryProps {
+  className?: string;
+}
+
+export const OrderHistory: React.FC<OrderHistoryProps> = ({ className = '' }) => {
+  const { fills, orderHistory, symbols } = useExchangeStore();
+  const [tab, setTab] = useState<HistoryTab>('fills');
+  const [query, setQuery] = useState('');
+
+  const instrumentFor = (symbol: string) =>
+    symbols.find(spec => spec.symbol === symbol)?.instrument ?? DEFAULT_INSTRUMENT;
+
+  const shownFills = fills.filter(fill => matchesSearch(fillFields(fill), query));
+  const shownOrders = orderHistory.filter(entry => matchesSearch(orderFields(entry), query));
+  const shownCount = tab === 'fills' ? shownFills.length : shownOrders.length;
+  const totalCount = tab === 'fills' ? fills.length : orderHistory.length;
+
+  const tabClass = (value: HistoryTab) =>
+    `px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+      tab === value ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+    }`;
+
+  return (
+    <div className={`bg-slate-900 rounded-lg border border-slate-700 flex flex-col ${className}`}>
+      <div className="p-4 border-b border-slate-700 space-y-3">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-white">My Trades</h2>
+          <div className="flex space-x-1 bg-slate-800 rounded-lg p-1">
+            <button onClick={() => setTab('fills')} aria-pressed={tab === 'fills'} className={tabClass('fills')}>
+              Fills
+            </button>
+            <button onClick={() => setTab('orders')} aria-pressed={tab === 'orders'} className={tabClass('orders')}>
+              Orders
+            </button>
+          </div>
+        </div>
+        <div className="relative">
+          <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Symbol, order id, side, status"
+            className="w-full pl-7 pr-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Search my trades"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto max-h-80">
+        {shownCount === 0 ? (
+          <div className="flex items-center justify-center h-20 text-gray-500">
+            {totalCount === 0 ? `No ${tab} yet` : `No ${tab} match "${query}"`}
+          </div>
+        ) : tab === 'fills' ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-400">
+                <th scope="col" className="px-3 py-2 text-left font-medium">Time</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium">Symbol</th>
+                <th scope="col" className="px-3 py-2 text-right font-medium">Price</th>
+                <th scope="col" className="px-3 py-2 text-right font-medium">Size</th>
+                <th scope="col" className="px-3 py-2 text-right font-medium">Fee</th>
+                <th scope="col" className="px-3 py-2 text-right font-medium">Role</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shownFills.map(fill => {
+                const instrument = instrumentFor(fill.symbol);
+                return (
+                  <tr key={`${fill.id}-${fill.orderId}`} className="hover:bg-slate-800 transition-colors" title={`Order ${fill.orderId}`}>
+                    <td className="px-3 py-2 text-gray-400 text-xs">{new Date(fill.timestamp).toLocaleTimeString()}</td>
+                    <td className={`px-3 py-2 font-medium ${fill.side === 'buy' ? 'text-buy' : 'text-sell'}`}>
+                      {fill.side.toUpperCase()} {fill.symbol}
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono text-gray-300">{formatPrice(fill.price, instrument)}</td>
+                    <td className="px-3 py-2 text-right font-mono text-gray-300">{formatQuantity(fill.quantity, instrument)}</td>
+                    <td className="px-3 py-2 text-right font-mono text-gray-300">{fill.fee.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-right text-xs text-gray-400">{fill.liquidity === 'maker' ? 'Maker' : 'Taker'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-400">
+                <th scope="col" className="px-3 py-2 text-left font-medium">Time</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium">Order</th>
+                <th scope="col" className="px-3 py-2 text-right font-medium">Filled</th>
+                <th scope="col" className="px-3 py-2 text-right font-medium">Avg Price</th>
+                <th scope="col" className="px-3 py-2 text-right font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shownOrders.map(entry => {
+                const instrument = instrumentFor(entry.symbol);
+                return (
+                  <tr key={entry.orderId} className="hover:bg-slate-800 transition-colors" title={`Order ${entry.orderId}`}>
+                    <td className="px-3 py-2 text-gray-400 text-xs">{new Date(entry.timestamp).toLocaleTimeString()}</td>
+                    <td className={`px-3 py-2 font-medium ${entry.side === 'buy' ? 'text-buy' : 'text-sell'}`}>
+                      {entry.side.toUpperCase()} {entry.symbol}
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono text-gray-300">
+                      {formatQuantity(entry.cumQuantity, instrument)}/{formatQuantity(entry.quantity, instrument)}
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono text-gray-300">
+                      {entry.cumQuantity > 0 ? formatPrice(entry.avgPrice, instrument) : '-'}
+                    </td>
+                    <td
+                      className={`px-3 py-2 text-right text-xs font-medium ${STATUS_COLORS[entry.status] ?? 'text-gray-400'}`}
+                      title={entry.reason ? ORDER_REASON_MESSAGES[entry.reason] : undefined}
+                    >
+                      {STATUS_LABELS[entry.status] ?? entry.status}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {totalCount > 0 && (
+        <div className="p-3 border-t border-slate-700 bg-slate-800">
+          <div className="text-xs text-gray-400 text-center">
+            Showing {shownCount} of {totalCount} {tab}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X } from 'lucide-react';
+import { useExchangeStore } from '../store/exchangeStore';
+import { ORDER_REASON_MESSAGES } from '../lib/orderMatcher';
+import { formatPrice, formatQuantity, roundToLot } from '../lib/instrument';
+import type { OrderStatus } from '../types';
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  new: 'Order placed',
+  partially_filled: 'Order partially filled',
+  filled: 'Order filled',
+  cancelled: 'Order cancelled',
+  rejected: 'Order rejected',
+  expired: 'Order expired',
+};
+
+const AUTO_DISMISS_MS = 5000;
+
+export const OrderOutcomeToast: React.FC = () => {
+  const { lastOrderOutcome, dismissOrderOutcome, instrument } = useExchangeStore();
+
+  useEffect(() => {
+    if (!lastOrderOutcome) return;
+
+    const timeoutId = setTimeout(dismissOrderOutcome, AUTO_DISMISS_MS);
+    return () => clearTimeout(timeoutId);
+  }, [lastOrderOutcome, dismissOrderOutcome]);
+
+  const isFailure =
+    lastOrderOutcome?.status === 'rejected' ||
+    lastOrderOutcome?.status === 'cancelled' ||
+    lastOrderOutcome?.status === 'expired';
+
+  // Fill details for orders that reached the matching engine
+  const filledQuantity = lastOrderOutcome?.filledQuantity;
+  const showFills = filledQuantity !== undefined && lastOrderOutcome?.status !== 'rejected';
+
+  return (
+    <AnimatePresence>
+      {lastOrderOutcome && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          transition={{ duration: 0.2 }}
+          role="status"
+          aria-live="polite"
+          className={`fixed top-4 right-4 z-40 w-80 rounded-lg border p-4 text-sm bg-slate-800 ${
+            isFailure ? 'border-red-700' : 'border-green-700'
+          }`}
+        >
+          <div className="flex justify-between items-start">
+            <div>
+              <div className={`font-semibold ${isFailure ? 'text-red-300' : 'text-green-300'}`}>
+                {STATUS_LABELS[lastOrderOutcome.status]}
+              </div>
+              <div className="text-gray-300 mt-1">
+                {lastOrderOutcome.order.side.toUpperCase()} {lastOrderOutcome.order.quantity}{' '}
+                {lastOrderOutcome.order.type.toUpperCase()}
+              </div>
+              {showFills && (
+                <dl className="mt-2 grid grid-cols-3 gap-2 text-xs">
+                  <div>
+                    <dt className="text-gray-500">Filled</dt>
+                    <dd className="text-gray-200 font-mono">{formatQuantity(filledQuantity, instrument)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Unfilled</dt>
+                    <dd className="text-gray-200 font-mono">
+                      {formatQuantity(
+                        roundToLot(lastOrderOutcome.order.quantity - filledQuantity, instrument),
+                        instrument
+                      )}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Avg Price</dt>
+                    <dd className="text-gray-200 font-mono">
+                      {filledQuantity > 0 ? formatPrice(lastOrderOutcome.avgPrice ?? 0, instrument) : '—'}
+                    </dd>
+                  </div>
+                </dl>
+              )}
+              {lastOrderOutcome.reason && (
+                <div className="text-gray-400 mt-1">
+                  {ORDER_REASON_MESSAGES[lastOrderOutcome.reason]}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={dismissOrderOutcome}
+              className="text-gray-400 hover:text-white transition-colors p-1 rounded"
+              aria-label="Dismiss order notification"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { FastForward, Pause, Play, StepForward } from 'lucide-react';
+import { useExchangeStore } from '../store/exchangeStore';
+
+interface PauseControlsProps {
+  className?: string;
+}
+
+export const PauseControls: React.FC<PauseControlsProps> = ({ className = '' }) => {
+  const { isPaused, pendingUpdates, droppedUpdates, togglePause, stepUpdate, resume } =
+    useExchangeStore();
+
+  return (
+    <div className={`flex items-center space-x-2 text-sm ${className}`}>
+      {isPaused && (
+        <div role="group" aria-label="Paused updates" className="flex items-center space-x-2">
+          <span
+            className="text-yellow-300 font-mono"
+            title={droppedUpdates > 0 ? `${droppedUpdates} older updates were dropped` : undefined}
+          >
+            {pendingUpdates} pending{droppedUpdates > 0 && ' (buffer full)'}
+          </span>
+          <button
+            onClick={stepUpdate}
+            disabled={pendingUpdates === 0}
+            className="flex items-center space-x-1 px-2 py-1 rounded-md bg-slate-800 border border-slate-600 text-white hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Apply the next update (S)"
+          >
+            <StepForward size={14} />
+            <span>Step</span>
+          </button>
+          <button
+            onClick={() => resume('fast-forward')}
+            className="flex items-center space-x-1 px-2 py-1 rounded-md bg-slate-800 border border-slate-600 text-white hover:bg-slate-700"
+            title="Skip the pending updates and jump to the live market"
+          >
+            <FastForward size={14} />
+            <span>Live</span>
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={togglePause}
+        className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors ${
+          isPaused
+            ? 'bg-green-600 hover:bg-green-700 text-white'
+            : 'bg-yellow-600 hover:bg-yellow-700 text-white'
+        }`}
+        title={isPaused ? 'Apply the pending updates and resume (Space)' : 'Pause (Space)'}
+      >
+        {isPaused ? <Play size={16} /> : <Pause size={16} />}
+        <span>{isPaused ? 'Resume' : 'Pause'}</span>
+      </button>
+    </div>
+  );
+};
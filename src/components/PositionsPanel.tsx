@@ -0,0 +1,81 @@
+import React from 'react';
+import { useExchangeStore } from '../store/exchangeStore';
+import { formatPrice, formatQuantity } from '../lib/instrument';
+import { getMarkPrice, getUnrealizedPnl } from '../lib/positions';
+
+interface PositionsPanelProps {
+  className?: string;
+}
+
+const pnlColor = (pnl: number): string => {
+  if (pnl > 0) return 'text-buy';
+  if (pnl < 0) return 'text-sell';
+  return 'text-gray-400';
+};
+
+const formatPnl = (pnl: number): string => `${pnl > 0 ? '+' : ''}${pnl.toFixed(2)}`;
+
+export const PositionsPanel: React.FC<PositionsPanelProps> = ({ className = '' }) => {
+  // Reading `markets` re-renders on every book tick, which moves the marks
+  const { positions, markets, symbols } = useExchangeStore();
+
+  const rows = symbols
+    .filter(({ symbol }) => {
+      const position = positions[symbol];
+      return position && (position.quantity !== 0 || position.realizedPnl !== 0);
+    })
+    .map(spec => {
+      const position = positions[spec.symbol];
+      const markPrice = getMarkPrice(markets[spec.symbol]);
+      const unrealizedPnl = markPrice === null ? 0 : getUnrealizedPnl(position, markPrice);
+      return { spec, position, markPrice, unrealizedPnl };
+    });
+
+  return (
+    <div className={`bg-slate-900 rounded-lg border border-slate-700 flex flex-col ${className}`}>
+      <div className="p-4 border-b border-slate-700">
+        <h2 className="text-lg font-semibold text-white">Positions</h2>
+      </div>
+      {rows.length === 0 ? (
+        <div className="flex items-center justify-center h-20 text-gray-500">
+          No positions
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-400">
+              <th scope="col" className="px-3 py-2 text-left font-medium">Symbol</th>
+              <th scope="col" className="px-3 py-2 text-right font-medium">Size</th>
+              <th scope="col" className="px-3 py-2 text-right font-medium">Entry</th>
+              <th scope="col" className="px-3 py-2 text-right font-medium">Mark</th>
+              <th scope="col" className="px-3 py-2 text-right font-medium">Unrealized</th>
+              <th scope="col" className="px-3 py-2 text-right font-medium">Realized</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ spec, position, markPrice, unrealizedPnl }) => (
+              <tr key={spec.symbol} className="hover:bg-slate-800 transition-colors">
+                <th scope="row" className="px-3 py-2 text-left font-medium text-white">{spec.symbol}</th>
+                <td className={`px-3 py-2 text-right font-mono ${position.quantity < 0 ? 'text-sell' : 'text-buy'}`}>
+                  {formatQuantity(position.quantity, spec.instrument)}
+                </td>
+                <td className="px-3 py-2 text-right font-mono text-gray-300">
+                  {position.quantity === 0 ? '-' : formatPrice(position.avgEntryPrice, spec.instrument)}
+                </td>
+                <td className="px-3 py-2 text-right font-mono text-gray-300">
+                  {markPrice === null ? '-' : formatPrice(markPrice, spec.instrument)}
+                </td>
+                <td className={`px-3 py-2 text-right font-mono ${pnlColor(unrealizedPnl)}`}>
+                  {formatPnl(unrealizedPnl)}
+                </td>
+                <td className={`px-3 py-2 text-right font-mono ${pnlColor(position.realizedPnl)}`}>
+                  {formatPnl(position.realizedPnl)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { Circle, Square, Upload, X } from 'lucide-react';
+import { useExchangeStore } from '../store/exchangeStore';
+import { parseRecording } from '../lib/recording';
+import { REPLAY_SPEEDS } from '../lib/replayTransport';
+import type { ReplaySpeed } from '../types';
+
+interface ReplayControlsProps {
+  className?: string;
+}
+
+const formatPosition = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const speedLabel = (speed: ReplaySpeed): string => (speed === 'max' ? 'Max' : `${speed}x`);
+
+const downloadRecording = (ndjson: string) => {
+  const url = URL.createObjectURL(new Blob([ndjson], { type: 'application/x-ndjson' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `market-data-${new Date().toISOString().replace(/[:.]/g, '-')}.ndjson`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ className = '' }) => {
+  const {
+    isRecording,
+    recordedMessageCount,
+    replay,
+    startRecording,
+    stopRecording,
+    startReplay,
+    stopReplay,
+    setReplaySpeed,
+    seekReplay,
+  } = useExchangeStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const messages = parseRecording(await file.text());
+      if (messages.length === 0) {
+        throw new Error('The recording is empty');
+      }
+      setLoadError(null);
+      startReplay(messages);
+    } catch (error) {
+      setLoadError(`Could not load ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className={`flex items-center space-x-2 text-sm ${className}`}>
+      <button
+        onClick={() => (isRecording ? downloadRecording(stopRecording()) : startRecording())}
+        aria-pressed={isRecording}
+        className="flex items-center space-x-1 px-2 py-1 rounded-md bg-slate-800 border border-slate-600 text-white hover:bg-slate-700"
+        title={isRecording ? 'Stop and save the recording' : 'Record the market data feed'}
+      >
+        {isRecording ? <Square size={14} /> : <Circle size={14} className="text-red-400" />}
+        <span>{isRecording ? `Stop (${recordedMessageCount})` : 'Record'}</span>
+      </button>
+
+      {replay ? (
+        <div role="group" aria-label="Replay" className="flex items-center space-x-2">
+          <label htmlFor="replay-speed" className="text-gray-400">
+            Replay
+          </label>
+          <select
+            id="replay-speed"
+            value={String(replay.speed)}
+            onChange={(e) => {
+              const speed = REPLAY_SPEEDS.find(option => String(option) === e.target.value);
+              if (speed !== undefined) setReplaySpeed(speed);
+            }}
+            className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {REPLAY_SPEEDS.map(speed => (
+              <option key={speed} value={String(speed)}>
+                {speedLabel(speed)}
+              </option>
+            ))}
+          </select>
+          <input
+            type="range"
+            aria-label="Replay position"
+            min={0}
+            max={replay.duration}
+            value={replay.position}
+            onChange={(e) => seekReplay(Number(e.target.value))}
+            className="w-32"
+          />
+          <span className="text-gray-400 font-mono">
+            {formatPosition(replay.position)} / {formatPosition(replay.duration)}
+            {replay.isFinished && ' (ended)'}
+          </span>
+          <button
+            onClick={stopReplay}
+            className="p-1 rounded-md text-gray-400 hover:text-white"
+            title="Back to the live feed"
+            aria-label="Exit replay"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center space-x-1 px-2 py-1 rounded-md bg-slate-800 border border-slate-600 text-white hover:bg-slate-700"
+          title="Replay a saved recording"
+        >
+          <Upload size={14} />
+          <span>Load</span>
+        </button>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".ndjson,.jsonl,application/x-ndjson"
+        aria-label="Recording file"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) void handleFile(file);
+        }}
+      />
+      {loadError && (
+        <span role="alert" className="text-red-400">
+          {loadError}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { useExchangeStore } from '../store/exchangeStore';
+import { SCENARIOS, SCENARIO_NAMES, isScenarioName } from '../lib/scenarios';
+
+interface ScenarioSelectorProps {
+  className?: string;
+}
+
+export const ScenarioSelector: React.FC<ScenarioSelectorProps> = ({ className = '' }) => {
+  const { scenario, simulationSeed, networkFaults, setScenario, setNetworkFaults } =
+    useExchangeStore();
+
+  return (
+    <div className={`flex items-center space-x-2 text-sm ${className}`}>
+      <label htmlFor="scenario" className="text-gray-400">
+        Scenario
+      </label>
+      <select
+        id="scenario"
+        value={scenario}
+        onChange={(e) => {
+          if (isScenarioName(e.target.value)) {
+            setScenario(e.target.value);
+          }
+        }}
+        title={SCENARIOS[scenario].description}
+        className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {SCENARIO_NAMES.map(name => (
+          <option key={name} value={name}>
+            {SCENARIOS[name].label}
+          </option>
+        ))}
+      </select>
+      <span className="text-gray-500 font-mono" title="Open with ?seed= to replay this run">
+        Seed {simulationSeed}
+      </span>
+      <label
+        className="flex items-center space-x-1 text-gray-400"
+        title="Latency, dropped, duplicated and reordered messages, and disconnects"
+      >
+        <input
+          type="checkbox"
+          checked={networkFaults}
+          onChange={(e) => setNetworkFaults(e.target.checked)}
+          className="accent-yellow-500"
+        />
+        <span>Bad network</span>
+      </label>
+    </div>
+  );
+};
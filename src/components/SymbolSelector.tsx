@@ -0,0 +1,33 @@
+import React from 'react';
+import { useExchangeStore } from '../store/exchangeStore';
+
+interface SymbolSelectorProps {
+  className?: string;
+}
+
+export const SymbolSelector: React.FC<SymbolSelectorProps> = ({ className = '' }) => {
+  const { symbols, activeSymbol, setActiveSymbol } = useExchangeStore();
+
+  return (
+    <div
+      role="group"
+      aria-label="Select symbol"
+      className={`flex items-center bg-slate-800 rounded-lg p-1 ${className}`}
+    >
+      {symbols.map(({ symbol, baseAsset, quoteAsset }) => (
+        <button
+          key={symbol}
+          onClick={() => setActiveSymbol(symbol)}
+          aria-pressed={symbol === activeSymbol}
+          className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+            symbol === activeSymbol
+              ? 'bg-blue-600 text-white'
+              : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          {baseAsset}/{quoteAsset}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { useExchangeStore } from '../store/exchangeStore';
+import { formatPrice, formatQuantity } from '../lib/instrument';
+
+interface TickerBarProps {
+  className?: string;
+}
+
+interface TickerStatProps {
+  label: string;
+  value: string;
+  valueClassName?: string;
+}
+
+const TickerStat: React.FC<TickerStatProps> = ({ label, value, valueClassName = 'text-white' }) => (
+  <div>
+    <dt className="text-gray-400 text-xs">{label}</dt>
+    <dd className={`font-mono ${valueClassName}`}>{value}</dd>
+  </div>
+);
+
+export const TickerBar: React.FC<TickerBarProps> = ({ className = '' }) => {
+  const { ticker, instrument, activeSymbol, symbols } = useExchangeStore();
+  const baseAsset = symbols.find(spec => spec.symbol === activeSymbol)?.baseAsset ?? '';
+
+  if (!ticker) {
+    return (
+      <div className={`text-sm text-gray-400 ${className}`} aria-live="polite">
+        Waiting for {activeSymbol} trades...
+      </div>
+    );
+  }
+
+  const changeClassName = ticker.priceChange >= 0 ? 'text-buy' : 'text-sell';
+  const sign = ticker.priceChange > 0 ? '+' : '';
+
+  return (
+    <dl
+      aria-label={`${activeSymbol} 24h statistics`}
+      className={`flex items-center space-x-8 text-sm ${className}`}
+    >
+      <TickerStat
+        label="Last Price"
+        value={formatPrice(ticker.lastPrice, instrument)}
+        valueClassName={`text-lg font-semibold ${changeClassName}`}
+      />
+      <TickerStat
+        label="24h Change"
+        value={`${sign}${formatPrice(ticker.priceChange, instrument)} (${sign}${ticker.priceChangePercent.toFixed(2)}%)`}
+        valueClassName={changeClassName}
+      />
+      <TickerStat label="24h High" value={formatPrice(ticker.high24h, instrument)} />
+      <TickerStat label="24h Low" value={formatPrice(ticker.low24h, instrument)} />
+      <TickerStat
+        label={`24h Volume (${baseAsset})`}
+        value={formatQuantity(ticker.volume24h, instrument)}
+      />
+    </dl>
+  );
+};
@@ -2,14 +2,16 @@ import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Trash2 } from 'lucide-react';
 import { useExchangeStore } from '../store/exchangeStore';
-import type { Trade } from '../types';
+import { formatPrice, formatQuantity } from '../lib/instrument';
+import type { InstrumentSpec, Trade } from '../types';
 
 interface TradeRowProps {
   trade: Trade;
   index: number;
+  instrument: InstrumentSpec;
 }
 
-const TradeRow: React.FC<TradeRowProps> = ({ trade, index }) => {
+const TradeRow: React.FC<TradeRowProps> = ({ trade, index, instrument }) => {
   return (
     <motion.div
       initial={{ opacity: 0, x: -20 }}
@@ -22,10 +24,10 @@ const TradeRow: React.FC<TradeRowProps> = ({ trade, index }) => {
         <span className={`font-mono font-semibold ${
           trade.side === 'buy' ? 'text-buy' : 'text-sell'
         }`}>
-          {trade.price.toFixed(2)}
+          {formatPrice(trade.price, instrument)}
         </span>
         <span className="text-gray-300 font-mono">
-          {trade.quantity.toFixed(4)}
+          {formatQuantity(trade.quantity, instrument)}
         </span>
       </div>
       <div className="text-right">
@@ -47,7 +49,7 @@ interface TradeHistoryProps {
 }
 
 export const TradeHistory: React.FC<TradeHistoryProps> = ({ className = '' }) => {
-  const { trades, clearTrades } = useExchangeStore();
+  const { trades, clearTrades, instrument } = useExchangeStore();
 
   const totalVolume = trades.reduce((sum, trade) => sum + trade.quantity, 0);
   const averagePrice = trades.length > 0 
@@ -73,11 +75,11 @@ export const TradeHistory: React.FC<TradeHistoryProps> = ({ className = '' }) =>
         <div className="grid grid-cols-2 gap-4 text-sm">
           <div>
             <div className="text-gray-400">Total Volume</div>
-            <div className="text-white font-mono">{totalVolume.toFixed(4)}</div>
+            <div className="text-white font-mono">{formatQuantity(totalVolume, instrument)}</div>
           </div>
           <div>
             <div className="text-gray-400">Avg Price</div>
-            <div className="text-white font-mono">{averagePrice.toFixed(2)}</div>
+            <div className="text-white font-mono">{formatPrice(averagePrice, instrument)}</div>
           </div>
         </div>
 
@@ -100,7 +102,7 @@ export const TradeHistory: React.FC<TradeHistoryProps> = ({ className = '' }) =>
             </div>
           ) : (
             trades.slice(0, 50).map((trade, index) => (
-              <TradeRow key={trade.id} trade={trade} index={index} />
+              <TradeRow key={trade.id} trade={trade} index={index} instrument={instrument} />
             ))
           )}
         </AnimatePresence>
@@ -0,0 +1,136 @@
+import type {
+  AssetBalance,
+  ExecutionReport,
+  Order,
+  OrderBookLevel,
+  SymbolSpec,
+} from '../types';
+import { getDecimals } from './instrument';
+
+// What a new account starts with
+export const DEFAULT_BALANCES: Record<string, number> = {
+  USD: 100000,
+  BTC: 1,
+  ETH: 10,
+  SOL: 200,
+};
+
+// Amounts are rounded to this many decimals so repeated fills do not drift
+const AMOUNT_DECIMALS = 8;
+
+export const roundAmount = (amount: number): number => Number(amount.toFixed(AMOUNT_DECIMALS));
+
+// Funds an order holds back while it is open
+export interface Reservation {
+  asset: string;
+  amount: number;
+}
+
+type PricedOrder = Pick<
+  Order,
+  'side' | 'type' | 'quantity' | 'price' | 'stopPrice' | 'protectionPrice'
+>;
+
+/** Price of the level where sweeping `levels` reaches `quantity`, or the last level's */
+export const getSweepPrice = (levels: OrderBookLevel[], quantity: number): number | undefined =>
+  (levels.find(level => level.total >= quantity) ?? levels[levels.length - 1])?.price;
+
+/**
+ * Highest price a buy can pay: its limit, or for stop market buys their
+ * protection or stop price. Market buys use `marketPrice`, the price a sweep of
+ * the book would reach, unless their protection price is lower.
+ */
+export const getReservedPrice = (order: PricedOrder, marketPrice = 0): number => {
+  if (order.type === 'limit' || order.type === 'stop-limit') {
+    return order.price;
+  }
+  if (order.type === 'stop') {
+    return order.protectionPrice ?? order.stopPrice ?? 0;
+  }
+  return Math.min(order.protectionPrice ?? Infinity, marketPrice);
+};
+
+/**
+ * Sells hold back their base quantity, buys the quote they could spend at
+ * their reserved price plus a fee at `feeRate`. Sells pay their fee out of the
+ * proceeds.
+ */
+export const getReservation = (
+  order: PricedOrder,
+  spec: SymbolSpec,
+  marketPrice = 0,
+  feeRate = 0
+): Reservation => {
+  if (order.side === 'sell') {
+    return { asset: spec.baseAsset, amount: order.quantity };
+  }
+
+  const cost = order.quantity * getReservedPrice(order, marketPrice);
+  return { asset: spec.quoteAsset, amount: roundAmount(cost + cost * Math.max(feeRate, 0)) };
+};
+
+// Decimals an asset is shown with: its lot size as a base asset, cents as a quote
+export const getAssetDecimals = (asset: string, specs: SymbolSpec[]): number => {
+  const spec = specs.find(s => s.baseAsset === asset);
+  return spec ? getDecimals(spec.instrument.lotSize) : 2;
+};
+
+/** Explains why `balances` cannot cover `reservation`, or returns null when they can */
+export const checkFunds = (
+  reservation: Reservation,
+  balances: Record<string, AssetBalance>,
+  specs: SymbolSpec[]
+): string | null => {
+  const available = balances[reservation.asset]?.available ?? 0;
+  if (reservation.amount <= available) return null;
+
+  const decimals = getAssetDecimals(reservation.asset, specs);
+  return (
+    `Insufficient ${reservation.asset}: the order needs ${reservation.amount.toFixed(decimals)}, ` +
+    `${available.toFixed(decimals)} available`
+  );
+};
+
+/**
+ * One account's holdings. Totals change only when fills settle; what open
+ * orders hold back is worked out from the orders themselves, so reservations
+ * follow every fill, amendment, cancellation and expiry without bookkeeping.
+ */
+export class AccountLedger {
+  private totals: Record<string, number>;
+
+  constructor(initialBalances: Record<string, number> = DEFAULT_BALANCES) {
+    this.totals = { ...initialBalances };
+  }
+
+  // Moves both legs of a fill and its fee; other reports leave the totals alone
+  settle(report: ExecutionReport, spec: SymbolSpec): void {
+    const { lastPrice, lastQuantity, fee = 0 } = report;
+    if (lastPrice === undefined || lastQuantity === undefined) return;
+
+    const quote = lastPrice * lastQuantity;
+    const direction = report.side === 'buy' ? 1 : -1;
+    this.adjust(spec.baseAsset, direction * lastQuantity);
+    this.adjust(spec.quoteAsset, -direction * quote - fee);
+  }
+
+  getBalances(reservations: Reservation[]): Record<string, AssetBalance> {
+    const reserved: Record<string, number> = {};
+    reservations.forEach(({ asset, amount }) => {
+      reserved[asset] = (reserved[asset] ?? 0) + amount;
+    });
+
+    const assets = new Set([...Object.keys(this.totals), ...Object.keys(reserved)]);
+    return Object.fromEntries(
+      [...assets].map(asset => {
+        const total = this.totals[asset] ?? 0;
+        const held = roundAmount(reserved[asset] ?? 0);
+        return [asset, { asset, total, reserved: held, available: roundAmount(total - held) }];
+      })
+    );
+  }
+
+  private adjust(asset: string, amount: number): void {
+    this.totals[asset] = roundAmount((this.totals[asset] ?? 0) + amount);
+  }
+}
@@ -0,0 +1,277 @@
+import type {
+  AgentPopulation,
+  ExecutionReport,
+  InstrumentSpec,
+  MarketMakerParams,
+  MomentumTraderParams,
+  NoiseTraderParams,
+  Order,
+  Trade,
+} from '../types';
+import type { OrderMatcher } from './orderMatcher';
+import type { RandomSource } from './random';
+import { priceToTicks, ticksToPrice } from './instrument';
+
+type Side = Order['side'];
+
+export type AgentKind = 'maker' | 'momentum' | 'noise';
+
+// Every simulated account starts with this, so they are easy to tell from users
+export const SIMULATED_ACCOUNT_PREFIX = 'sim-';
+
+export const isSimulatedAccount = (accountId?: string): boolean =>
+  accountId?.startsWith(SIMULATED_ACCOUNT_PREFIX) ?? false;
+
+export const DEFAULT_AGENTS: AgentPopulation = {
+  marketMakers: {
+    count: 3,
+    cancelProbability: 0.1,
+    inventorySkew: 0.0002,
+    maxInventory: 10,
+  },
+  momentumTraders: {
+    count: 2,
+    lookback: 10,
+    threshold: 0.001,
+    activity: 0.3,
+  },
+  noiseTraders: {
+    count: 4,
+    activity: 0.15,
+    marketOrderProbability: 0.4,
+    limitRange: 0.004,
+    orderLifetime: 20,
+  },
+};
+
+// Makers spread their quotes over this fraction of the price on each side
+const QUOTE_BAND = 0.006;
+
+/** What an agent can see and do on its turn */
+export interface AgentContext {
+  matcher: OrderMatcher;
+  random: RandomSource;
+  instrument: InstrumentSpec;
+  fairValue: number;
+  spreadRange: [number, number];
+  quotesPerSide: number; // Per market maker
+  typicalQuantity: number; // Middle of the configured order size range
+  step: number;
+  // A fresh order for this agent's account, sized from the configured volume range
+  createOrder: (accountId: string, side: Side, type: 'limit' | 'market', price?: number) => Order;
+}
+
+interface OpenOrder {
+  side: Side;
+  price: number;
+  step: number;
+}
+
+/**
+ * A simulated trader with its own account. It sends real orders through the
+ * matcher and learns about fills and cancels from execution reports.
+ */
+export abstract class TradingAgent {
+  protected openOrders = new Map<string, OpenOrder>();
+  protected position = 0; // Base quantity held; negative when short
+  private step = 0;
+
+  constructor(
+    readonly kind: AgentKind,
+    readonly accountId: string
+  ) {}
+
+  /** Takes one turn; returns the trades it caused */
+  act(context: AgentContext): Trade[] {
+    this.step = context.step;
+    return this.decide(context);
+  }
+
+  protected abstract decide(context: AgentContext): Trade[];
+
+  onExecutionReport(report: ExecutionReport): void {
+    if (report.execType === 'new') {
+      this.openOrders.set(report.orderId, {
+        side: report.side,
+        price: report.price,
+        step: this.step,
+      });
+    }
+
+    if (report.lastQuantity !== undefined) {
+      this.position += report.side === 'buy' ? report.lastQuantity : -report.lastQuantity;
+    }
+
+    if (report.leavesQuantity === 0) {
+      this.openOrders.delete(report.orderId);
+    }
+  }
+
+  getPosition(): number {
+    return this.position;
+  }
+
+  getOpenOrderCount(): number {
+    return this.openOrders.size;
+  }
+
+  protected submit(context: AgentContext, order: Order): Trade[] {
+    return context.matcher.addOrder(order).trades;
+  }
+
+  protected cancel(context: AgentContext, orderId: string): void {
+    context.matcher.removeOrder(orderId);
+  }
+
+  protected countOpenOrders(side: Side): number {
+    let count = 0;
+    this.openOrders.forEach(order => {
+      if (order.side === side) count++;
+    });
+    return count;
+  }
+}
+
+/**
+ * Keeps quotes on both sides of the fair value. Quotes the fair value has
+ * moved through are pulled, as are a few at random, so queues turn over.
+ * Quotes lean against inventory, and past `maxInventory` the maker stops
+ * adding to its position.
+ */
+export class MarketMaker extends TradingAgent {
+  constructor(
+    accountId: string,
+    private params: MarketMakerParams
+  ) {
+    super('maker', accountId);
+  }
+
+  protected decide(context: AgentContext): Trade[] {
+    const { random, instrument, fairValue, spreadRange, quotesPerSide, typicalQuantity } = context;
+    const fairTicks = priceToTicks(fairValue, instrument);
+
+    [...this.openOrders].forEach(([orderId, { side, price }]) => {
+      const ticks = priceToTicks(price, instrument);
+      const isStale = side === 'buy' ? ticks >= fairTicks : ticks <= fairTicks;
+      if (isStale || random() < this.params.cancelProbability) {
+        this.cancel(context, orderId);
+      }
+    });
+
+    const inventory = this.position / typicalQuantity;
+    const skew = -inventory * this.params.inventorySkew * fairValue;
+    const [minSpread, maxSpread] = spreadRange;
+    const halfSpread = (fairValue * (random() * (maxSpread - minSpread) + minSpread)) / 2;
+
+    const bidTicks = priceToTicks(fairValue + skew - halfSpread, instrument);
+    const askTicks = Math.max(bidTicks + 1, priceToTicks(fairValue + skew + halfSpread, instrument));
+    const bandTicks = Math.max(1, priceToTicks(fairValue * QUOTE_BAND, instrument));
+
+    const trades: Trade[] = [];
+    (['buy', 'sell'] as const).forEach(side => {
+      const isAtLimit =
+        side === 'buy'
+          ? inventory >= this.params.maxInventory
+          : inventory <= -this.params.maxInventory;
+      if (isAtLimit) return;
+
+      const startTicks = side === 'buy' ? bidTicks : askTicks;
+      for (let i = this.countOpenOrders(side); i < quotesPerSide; i++) {
+        const offset = Math.floor(random() * bandTicks);
+        const ticks = side === 'buy' ? startTicks - offset : startTicks + offset;
+        if (ticks <= 0) continue;
+
+        // Quotes can cross an order resting inside the spread; that is a fill
+        trades.push(
+          ...this.submit(
+            context,
+            context.createOrder(this.accountId, side, 'limit', ticksToPrice(ticks, instrument))
+          )
+        );
+      }
+    });
+
+    return trades;
+  }
+}
+
+/** Follows the recent trend in trade prices with market orders */
+export class MomentumTrader extends TradingAgent {
+  constructor(
+    accountId: string,
+    private params: MomentumTraderParams
+  ) {
+    super('momentum', accountId);
+  }
+
+  protected decide(context: AgentContext): Trade[] {
+    const recent = context.matcher.getTrades().slice(0, this.params.lookback);
+    if (recent.length < this.params.lookback) return [];
+
+    const newest = recent[0].price;
+    const oldest = recent[recent.length - 1].price;
+    const move = (newest - oldest) / oldest;
+    if (Math.abs(move) < this.params.threshold || context.random() >= this.params.activity) {
+      return [];
+    }
+
+    const side: Side = move > 0 ? 'buy' : 'sell';
+    return this.submit(context, context.createOrder(this.accountId, side, 'market'));
+  }
+}
+
+/** Uninformed flow: random sides, market orders and short-lived limit orders */
+export class NoiseTrader extends TradingAgent {
+  constructor(
+    accountId: string,
+    private params: NoiseTraderParams
+  ) {
+    super('noise', accountId);
+  }
+
+  protected decide(context: AgentContext): Trade[] {
+    const { random, instrument, fairValue, step } = context;
+
+    [...this.openOrders].forEach(([orderId, order]) => {
+      if (step - order.step >= this.params.orderLifetime) {
+        this.cancel(context, orderId);
+      }
+    });
+
+    if (random() >= this.params.activity) return [];
+
+    const side: Side = random() < 0.5 ? 'buy' : 'sell';
+    if (random() < this.params.marketOrderProbability) {
+      return this.submit(context, context.createOrder(this.accountId, side, 'market'));
+    }
+
+    // Anywhere around the fair value, so some limit orders are marketable
+    const offset = (random() * 2 - 1) * this.params.limitRange;
+    const ticks = priceToTicks(fairValue * (1 + offset), instrument);
+    if (ticks <= 0) return [];
+
+    return this.submit(
+      context,
+      context.createOrder(this.accountId, side, 'limit', ticksToPrice(ticks, instrument))
+    );
+  }
+}
+
+/** Builds a population with one account each, named sim-<kind>-<n> */
+export const createAgents = (population: AgentPopulation): TradingAgent[] => {
+  const account = (kind: AgentKind, index: number) =>
+    `${SIMULATED_ACCOUNT_PREFIX}${kind}-${index + 1}`;
+  const { marketMakers, momentumTraders, noiseTraders } = population;
+
+  return [
+    ...Array.from({ length: marketMakers.count }, (_, i) =>
+      new MarketMaker(account('maker', i), marketMakers)
+    ),
+    ...Array.from({ length: momentumTraders.count }, (_, i) =>
+      new MomentumTrader(account('momentum', i), momentumTraders)
+    ),
+    ...Array.from({ length: noiseTraders.count }, (_, i) =>
+      new NoiseTrader(account('noise', i), noiseTraders)
+    ),
+  ];
+};
@@ -0,0 +1,52 @@
+import type {
+  ConnectionState,
+  ConnectionStateListener,
+  MarketDataListener,
+  MarketDataTransport,
+} from '../types';
+
+// The least healthy state wins, so one dropped feed shows on the badge
+const STATE_PRIORITY: ConnectionState[] = ['closed', 'reconnecting', 'connecting', 'open'];
+
+export const combineConnectionStates = (states: ConnectionState[]): ConnectionState =>
+  STATE_PRIORITY.find(state => states.includes(state)) ?? 'closed';
+
+/** Presents several transports, e.g. one per simulated symbol, as one */
+export class CompositeTransport implements MarketDataTransport {
+  constructor(private transports: MarketDataTransport[]) {}
+
+  subscribe(listener: MarketDataListener): () => void {
+    const unsubscribers = this.transports.map(transport => transport.subscribe(listener));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  onStateChange(listener: ConnectionStateListener): () => void {
+    let lastState = this.getState();
+    const unsubscribers = this.transports.map(transport =>
+      transport.onStateChange(() => {
+        const state = this.getState();
+        if (state === lastState) return;
+
+        lastState = state;
+        listener(state);
+      })
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  getState(): ConnectionState {
+    return combineConnectionStates(this.transports.map(transport => transport.getState()));
+  }
+
+  requestSnapshot(symbol: string): void {
+    this.transports.forEach(transport => transport.requestSnapshot(symbol));
+  }
+
+  start(): void {
+    this.transports.forEach(transport => transport.start());
+  }
+
+  stop(): void {
+    this.transports.forEach(transport => transport.stop());
+  }
+}
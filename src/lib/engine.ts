@@ -0,0 +1,31 @@
+import type { MarketRegistryOptions } from '../types';
+import { EngineClient, createInThreadChannel, createWorkerChannel } from './engineClient';
+import { parseSimulationParams } from './markets';
+import { randomSeed } from './random';
+import { DEFAULT_SCENARIO } from './scenarios';
+import { DEFAULT_FEE_SCHEDULE } from './fees';
+
+// The app's simulation settings; ?seed=, ?scenario= and ?faults=1 reproduce a run
+export const simulationOptions: MarketRegistryOptions = {
+  seed: randomSeed(),
+  scenario: DEFAULT_SCENARIO,
+  networkFaults: false,
+  feeSchedule: DEFAULT_FEE_SCHEDULE,
+  ...parseSimulationParams(window.location.search),
+};
+
+let engine: EngineClient | null = null;
+
+/** The app's engine; runs on this thread unless a worker was connected first */
+export const getEngine = (): EngineClient => {
+  engine ??= new EngineClient(createInThreadChannel(), simulationOptions);
+  return engine;
+};
+
+/** Moves the engine into `worker`; call once, before anything uses getEngine */
+export const connectEngineWorker = (worker: Worker): void => {
+  if (engine) {
+    throw new Error('The engine is already running');
+  }
+  engine = new EngineClient(createWorkerChannel(worker), simulationOptions);
+};
@@ -0,0 +1,236 @@
+import type {
+  ConnectionState,
+  ConnectionStateListener,
+  EngineCancelResult,
+  EngineEvent,
+  EngineMessage,
+  EngineOrderResult,
+  EngineRequest,
+  EngineRequestEnvelope,
+  EngineResult,
+  MarketDataListener,
+  MarketDataTransport,
+  MarketRegistryOptions,
+  Order,
+  OrderAmendment,
+  ScenarioName,
+} from '../types';
+import { EngineHost } from './engineHost';
+
+type ExecutionEvent = Extract<EngineEvent, { type: 'execution' }>;
+type ExecutionListener = (event: Omit<ExecutionEvent, 'type'>) => void;
+type BalancesEvent = Extract<EngineEvent, { type: 'balances' }>;
+type BalancesListener = (event: Omit<BalancesEvent, 'type'>) => void;
+
+// How requests reach the engine and its messages come back
+export interface EngineChannel {
+  send(envelope: EngineRequestEnvelope): void;
+  onMessage(listener: (message: EngineMessage) => void): void;
+}
+
+export const createWorkerChannel = (worker: Worker): EngineChannel => ({
+  send: envelope => worker.postMessage(envelope),
+  onMessage: listener => {
+    worker.onmessage = (event: MessageEvent<EngineMessage>) => listener(event.data);
+  },
+});
+
+/** Runs the engine on this thread, for Jest and browsers without workers */
+export const createInThreadChannel = (): EngineChannel => {
+  let deliver: (message: EngineMessage) => void = () => {};
+  const host = new EngineHost(message => deliver(message));
+
+  return {
+    send: envelope => host.handle(envelope),
+    onMessage: listener => {
+      deliver = listener;
+    },
+  };
+};
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * The main thread's handle on the engine. Order requests resolve with their
+ * outcome; execution reports for user accounts arrive as events. As a
+ * MarketDataTransport it carries the simulated feeds of every symbol.
+ */
+export class EngineClient implements MarketDataTransport {
+  private subscribers: Set<MarketDataListener> = new Set();
+  private stateListeners: Set<ConnectionStateListener> = new Set();
+  private executionListeners: Set<ExecutionListener> = new Set();
+  private balancesListeners: Set<BalancesListener> = new Set();
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+  private state: ConnectionState = 'closed';
+
+  constructor(
+    private channel: EngineChannel,
+    options: MarketRegistryOptions
+  ) {
+    channel.onMessage(message => this.handleMessage(message));
+    void this.request({ type: 'init', options });
+  }
+
+  request<T extends EngineRequest>(request: T): Promise<EngineResult<T['type']>> {
+    const id = this.nextRequestId++;
+    const response = new Promise<EngineResult<T['type']>>((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+    });
+    this.channel.send({ id, request });
+    return response;
+  }
+
+  submitOrder(order: Order): Promise<EngineOrderResult> {
+    return this.request({ type: 'submitOrder', order });
+  }
+
+  amendOrder(symbol: string, orderId: string, changes: OrderAmendment): Promise<EngineOrderResult> {
+    return this.request({ type: 'amendOrder', symbol, orderId, changes });
+  }
+
+  cancelOrder(symbol: string, accountId: string, orderId: string): Promise<EngineCancelResult> {
+    return this.request({ type: 'cancelOrder', symbol, accountId, orderId });
+  }
+
+  cancelAllOrders(
+    symbol: string,
+    accountId: string,
+    side?: 'buy' | 'sell'
+  ): Promise<EngineCancelResult> {
+    return this.request({ type: 'cancelAllOrders', symbol, accountId, side });
+  }
+
+  expireOrders(): void {
+    this.send({ type: 'expireOrders' });
+  }
+
+  setScenario(scenario: ScenarioName): void {
+    this.send({ type: 'setScenario', scenario });
+  }
+
+  setNetworkFaults(enabled: boolean): void {
+    this.send({ type: 'setNetworkFaults', enabled });
+  }
+
+  onExecutionReport(listener: ExecutionListener): () => void {
+    this.executionListeners.add(listener);
+    return () => {
+      this.executionListeners.delete(listener);
+    };
+  }
+
+  // Balances of an account whose orders changed, once the matching is done
+  onBalances(listener: BalancesListener): () => void {
+    this.balancesListeners.add(listener);
+    return () => {
+      this.balancesListeners.delete(listener);
+    };
+  }
+
+  subscribe(listener: MarketDataListener): () => void {
+    this.subscribers.add(listener);
+    if (this.subscribers.size === 1) {
+      this.send({ type: 'subscribe' });
+    } else {
+      // The engine feeds this client once; a late subscriber needs fresh books
+      this.send({ type: 'requestSnapshot' });
+    }
+
+    return () => {
+      if (!this.subscribers.delete(listener)) return;
+      if (this.subscribers.size === 0) {
+        this.send({ type: 'unsubscribe' });
+      }
+    };
+  }
+
+  onStateChange(listener: ConnectionStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  requestSnapshot(symbol: string): void {
+    this.send({ type: 'requestSnapshot', symbol });
+  }
+
+  start(): void {
+    this.send({ type: 'start' });
+  }
+
+  stop(): void {
+    this.send({ type: 'stop' });
+  }
+
+  // Fire and forget, but failures still get logged
+  private send(request: EngineRequest): void {
+    this.request(request).catch(error => console.error(`Engine ${request.type} failed:`, error));
+  }
+
+  private handleMessage(message: EngineMessage): void {
+    switch (message.type) {
+      case 'response': {
+        const pending = this.pending.get(message.id);
+        if (!pending) return;
+
+        this.pending.delete(message.id);
+        if (message.error !== undefined) {
+          pending.reject(new Error(message.error));
+        } else {
+          pending.resolve(message.result);
+        }
+        break;
+      }
+      case 'market':
+        this.subscribers.forEach(listener => {
+          try {
+            listener(message.message);
+          } catch (error) {
+            console.error('Error in socket callback:', error);
+          }
+        });
+        break;
+      case 'connection':
+        this.state = message.state;
+        this.stateListeners.forEach(listener => {
+          try {
+            listener(message.state);
+          } catch (error) {
+            console.error('Error in socket state listener:', error);
+          }
+        });
+        break;
+      case 'execution': {
+        const { symbol, report, openOrders } = message;
+        this.executionListeners.forEach(listener => {
+          try {
+            listener({ symbol, report, openOrders });
+          } catch (error) {
+            console.error('Error in execution report listener:', error);
+          }
+        });
+        break;
+      }
+      case 'balances': {
+        const { accountId, balances } = message;
+        this.balancesListeners.forEach(listener => {
+          try {
+            listener({ accountId, balances });
+          } catch (error) {
+            console.error('Error in balances listener:', error);
+          }
+        });
+        break;
+      }
+    }
+  }
+}
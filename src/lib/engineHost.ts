@@ -0,0 +1,300 @@
+import type {
+  AddOrderResult,
+  AssetBalance,
+  EngineMessage,
+  EngineOrderResult,
+  EngineRequest,
+  EngineRequestEnvelope,
+  MarketRegistryOptions,
+  Order,
+  OrderReason,
+} from '../types';
+import { MarketRegistry, SYMBOL_SPECS } from './markets';
+import type { Market } from './markets';
+import { CompositeTransport } from './compositeTransport';
+import { isSimulatedAccount } from './agents';
+import {
+  AccountLedger,
+  checkFunds,
+  getReservation,
+  getReservedPrice,
+  getSweepPrice,
+} from './accounts';
+import type { Reservation } from './accounts';
+import type { OrderMatcher } from './orderMatcher';
+
+// Resting orders and the stops still waiting to trigger
+const accountOrders = (matcher: OrderMatcher, accountId?: string): Order[] =>
+  [...matcher.getOrders(), ...matcher.getStopOrders()].filter(
+    order => order.accountId === accountId
+  );
+
+const toOrderResult = (
+  { trades, remainingOrder, status, reason, filledQuantity, avgPrice }: AddOrderResult,
+  openOrders: Order[]
+): EngineOrderResult => ({
+  remainingOrder,
+  status,
+  reason,
+  filledQuantity,
+  avgPrice,
+  tradeCount: trades.length,
+  openOrders,
+});
+
+const getMarketPrice = (order: Order, matcher: OrderMatcher): number | undefined =>
+  getSweepPrice(matcher.getDepth('sell'), order.quantity);
+
+/**
+ * Market buys may not sweep past the price their funds were reserved at, so
+ * the reservation becomes their protection price.
+ */
+const capAtReservedPrice = (order: Order, matcher: OrderMatcher): Order => {
+  if (order.side !== 'buy' || order.type !== 'market') {
+    return order;
+  }
+
+  const price = getReservedPrice(order, getMarketPrice(order, matcher));
+  return price > 0 ? { ...order, protectionPrice: price } : order;
+};
+
+const rejectForFunds = (openOrders: Order[]): EngineOrderResult => ({
+  remainingOrder: null,
+  status: 'rejected',
+  reason: 'insufficient_funds',
+  filledQuantity: 0,
+  avgPrice: 0,
+  tradeCount: 0,
+  openOrders,
+});
+
+/**
+ * Owns the matching engines and simulated feeds and answers EngineRequests,
+ * posting responses and events through `post`. It runs inside the engine
+ * worker, or on the main thread where workers are unavailable (e.g. Jest).
+ * Execution reports for simulated accounts stay inside; only users' cross.
+ * Users' orders must be covered by their balances; simulated accounts trade
+ * without limits.
+ */
+export class EngineHost {
+  private registry: MarketRegistry | null = null;
+  private feeds: CompositeTransport | null = null;
+  private unsubscribeFeeds: (() => void) | null = null;
+  private ledgers = new Map<string, AccountLedger>();
+  // Accounts whose balances go out once the current matching has finished
+  private changedAccounts = new Set<string>();
+
+  constructor(private post: (message: EngineMessage) => void) {}
+
+  handle({ id, request }: EngineRequestEnvelope): void {
+    let result: unknown;
+    try {
+      result = this.execute(request);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.post({ type: 'response', id, error: message });
+      return;
+    }
+    this.post({ type: 'response', id, result });
+  }
+
+  private execute(request: EngineRequest): unknown {
+    if (request.type === 'init') {
+      this.init(request.options);
+      return undefined;
+    }
+
+    const registry = this.registry;
+    const feeds = this.feeds;
+    if (!registry || !feeds) {
+      throw new Error(`Engine received ${request.type} before init`);
+    }
+
+    switch (request.type) {
+      case 'subscribe':
+        if (!this.unsubscribeFeeds) {
+          this.unsubscribeFeeds = feeds.subscribe(message =>
+            this.post({ type: 'market', message })
+          );
+        }
+        return undefined;
+      case 'unsubscribe':
+        this.unsubscribeFeeds?.();
+        this.unsubscribeFeeds = null;
+        return undefined;
+      case 'start':
+        feeds.start();
+        return undefined;
+      case 'stop':
+        feeds.stop();
+        return undefined;
+      case 'requestSnapshot':
+        registry
+          .getAll()
+          .filter(({ spec }) => request.symbol === undefined || spec.symbol === request.symbol)
+          .forEach(({ feed }) => feed.requestSnapshot());
+        return undefined;
+      case 'submitOrder': {
+        let { order } = request;
+        const market = registry.get(order.symbol ?? '');
+        const { matcher, feed } = market;
+        if (order.accountId) {
+          if (!this.canAfford(order.accountId, this.reserve(order, market))) {
+            return rejectForFunds(accountOrders(matcher, order.accountId));
+          }
+          order = capAtReservedPrice(order, matcher);
+        }
+
+        const result = matcher.addOrder(order);
+        // Trades and the resulting book go out through the feed, like everyone else's
+        feed.publish(result.trades);
+        return toOrderResult(result, accountOrders(matcher, order.accountId));
+      }
+      case 'amendOrder': {
+        const market = registry.get(request.symbol);
+        const { matcher, feed } = market;
+        const previous = matcher.getOrders().find(o => o.id === request.orderId);
+        const accountId = previous?.accountId;
+        if (previous && accountId) {
+          // Only the difference has to come out of what is still available
+          const held = this.reserve(previous, market);
+          const needed = this.reserve({ ...previous, ...request.changes }, market);
+          if (!this.canAfford(accountId, { ...needed, amount: needed.amount - held.amount })) {
+            return rejectForFunds(accountOrders(matcher, accountId));
+          }
+        }
+
+        const result = matcher.amendOrder(request.orderId, request.changes);
+        feed.publish(result.trades);
+        return toOrderResult(result, accountOrders(matcher, accountId));
+      }
+      case 'cancelOrder': {
+        const { matcher, feed } = registry.get(request.symbol);
+        const openOrders = accountOrders(matcher, request.accountId);
+        const cancelled =
+          openOrders.some(order => order.id === request.orderId) &&
+          matcher.removeOrder(request.orderId);
+        // The level changes now, not at the simulator's next step
+        if (cancelled) {
+          feed.publish();
+        }
+        return {
+          cancelledCount: cancelled ? 1 : 0,
+          openOrders: accountOrders(matcher, request.accountId),
+        };
+      }
+      case 'cancelAllOrders': {
+        const { matcher, feed } = registry.get(request.symbol);
+        const cancelledCount = accountOrders(matcher, request.accountId)
+          .filter(order => request.side === undefined || order.side === request.side)
+          .filter(order => matcher.removeOrder(order.id)).length;
+        if (cancelledCount > 0) {
+          feed.publish();
+        }
+        return { cancelledCount, openOrders: accountOrders(matcher, request.accountId) };
+      }
+      case 'expireOrders':
+        registry.getAll().forEach(({ matcher, feed }) => {
+          if (matcher.expireOrders().length > 0) {
+            feed.publish();
+          }
+        });
+        return undefined;
+      case 'setScenario':
+        registry.setScenario(request.scenario);
+        return undefined;
+      case 'setNetworkFaults':
+        registry.setNetworkFaults(request.enabled);
+        return undefined;
+    }
+  }
+
+  private init(options: MarketRegistryOptions): void {
+    if (this.registry) {
+      throw new Error('Engine is already initialized');
+    }
+
+    const registry = new MarketRegistry(SYMBOL_SPECS, options);
+    this.registry = registry;
+    this.feeds = new CompositeTransport(registry.getAll().map(({ feed }) => feed));
+    this.feeds.onStateChange(state => this.post({ type: 'connection', state }));
+
+    registry.getAll().forEach(market => {
+      const { spec, matcher } = market;
+      matcher.updateConfig({
+        prepareTriggeredStop: order => this.prepareTriggeredStop(order, market),
+      });
+      matcher.subscribe(report => {
+        if (isSimulatedAccount(report.accountId)) return;
+        if (report.accountId) {
+          this.getLedger(report.accountId).settle(report, spec);
+          this.scheduleBalances(report.accountId);
+        }
+        this.post({
+          type: 'execution',
+          symbol: spec.symbol,
+          report,
+          openOrders: accountOrders(matcher, report.accountId),
+        });
+      });
+    });
+  }
+
+  private getLedger(accountId: string): AccountLedger {
+    let ledger = this.ledgers.get(accountId);
+    if (!ledger) {
+      ledger = new AccountLedger();
+      this.ledgers.set(accountId, ledger);
+    }
+    return ledger;
+  }
+
+  private getBalances(accountId: string): Record<string, AssetBalance> {
+    const reservations = (this.registry?.getAll() ?? []).flatMap(market =>
+      accountOrders(market.matcher, accountId).map(order => this.reserve(order, market))
+    );
+    return this.getLedger(accountId).getBalances(reservations);
+  }
+
+  /**
+   * What the order would hold back, pricing a market buy at the sweep of the
+   * whole ask side. Buys also hold the fee they would pay as a taker at the
+   * account's tier.
+   */
+  private reserve(order: Order, { spec, matcher }: Market): Reservation {
+    const feeRate = this.registry?.getFees().getTier(order.accountId).takerRate ?? 0;
+    return getReservation(order, spec, getMarketPrice(order, matcher), feeRate);
+  }
+
+  /**
+   * A stop's funds were reserved at its stop price, but the market may have
+   * gapped past it. Once triggered it must be covered at the current book, and
+   * a market buy is then capped there like any other.
+   */
+  private prepareTriggeredStop(order: Order, market: Market): Order | OrderReason {
+    const { accountId } = order;
+    if (!accountId || isSimulatedAccount(accountId)) return order;
+
+    if (!this.canAfford(accountId, this.reserve(order, market))) {
+      return 'insufficient_funds';
+    }
+    return capAtReservedPrice(order, market.matcher);
+  }
+
+  private canAfford(accountId: string, reservation: Reservation): boolean {
+    return checkFunds(reservation, this.getBalances(accountId), SYMBOL_SPECS) === null;
+  }
+
+  // Reports arrive mid-match, before the book settles; balances wait until it has
+  private scheduleBalances(accountId: string): void {
+    if (this.changedAccounts.size === 0) {
+      void Promise.resolve().then(() => {
+        this.changedAccounts.forEach(changed =>
+          this.post({ type: 'balances', accountId: changed, balances: this.getBalances(changed) })
+        );
+        this.changedAccounts.clear();
+      });
+    }
+    this.changedAccounts.add(accountId);
+  }
+}
@@ -1,45 +1,150 @@
-import type { OrderBook, Trade, WebSocketMessage, FakeSocketConfig } from '../types';
-
-type SubscriptionCallback = (message: WebSocketMessage) => void;
-
-class FakeSocket {
-  private subscribers: Set<SubscriptionCallback> = new Set();
+import type {
+  Order,
+  OrderBook,
+  Trade,
+  WebSocketMessage,
+  FakeSocketConfig,
+  ConnectionState,
+  ConnectionStateListener,
+  MarketDataListener,
+  MarketDataTransport,
+  ScenarioName,
+} from '../types';
+import { OrderMatcher } from './orderMatcher';
+import { diffOrderBooks } from './orderBook';
+import { MarketStats } from './marketStats';
+import { createRandom, randomSeed } from './random';
+import type { RandomSource } from './random';
+import { DEFAULT_SCENARIO, SCENARIOS } from './scenarios';
+import { DEFAULT_AGENTS, createAgents } from './agents';
+import { FaultInjector, NO_FAULTS } from './faults';
+import type { AgentContext, TradingAgent } from './agents';
+import { DEFAULT_INSTRUMENT, lotsToQuantity, quantityToLots } from './instrument';
+
+// Faults draw from their own stream, so turning them on leaves the market unchanged
+const FAULT_SEED_MIX = 0x9e3779b9;
+
+/**
+ * Simulated market: a population of trading agents (market makers, momentum
+ * and noise traders, see ./agents) sends real orders through the symbol's
+ * OrderMatcher around a randomly walking fair value. The resulting book and
+ * trades are broadcast, so user orders rest among and fill against the
+ * displayed liquidity, and prints follow from the book. The book goes out as
+ * a snapshot followed by sequenced level deltas; every batch of trades is
+ * followed by a ticker with rolling 24h statistics.
+ *
+ * As a transport it is open while anyone is subscribed; stop() only halts
+ * the simulation. Every random choice comes from a seeded PRNG, so the same
+ * seed and scenario replay the same feed. `faults` puts a simulated network
+ * in between: latency, drops, duplicates, reordering and disconnects, after
+ * which each subscriber gets a fresh snapshot.
+ */
+class FakeSocket implements MarketDataTransport {
+  private subscribers: Set<MarketDataListener> = new Set();
+  private stateListeners: Set<ConnectionStateListener> = new Set();
   private intervalId: ReturnType<typeof setTimeout> | null = null;
   private isRunning = false;
   private config: FakeSocketConfig;
-  private currentPrice = 50000; // Starting BTC price
+  private currentPrice: number;
   private sequenceId = 0;
-
-  constructor(config: Partial<FakeSocketConfig> = {}) {
+  private matcher: OrderMatcher;
+  private bookSequence = 0;
+  // Book the last snapshot or delta described; null until a snapshot goes out
+  private lastPublishedBook: OrderBook | null = null;
+  private stats: MarketStats;
+  private seed: number;
+  private random: RandomSource;
+  private agents: TradingAgent[] = [];
+  private agentsByAccount = new Map<string, TradingAgent>();
+  private stepCount = 0;
+  private faults: FaultInjector;
+  private isDisconnected = false;
+  private reconnectTimerId: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: Partial<FakeSocketConfig> = {}, matcher?: OrderMatcher) {
+    const scenario = config.scenario ?? DEFAULT_SCENARIO;
+    this.seed = config.seed ?? randomSeed();
     this.config = {
-      updateInterval: [300, 800],
-      priceVolatility: 0.001, // 0.1% volatility
+      symbol: 'BTC-USD',
+      initialPrice: 50000,
       volumeRange: [0.1, 5.0],
-      spreadRange: [0.01, 0.05], // 0.01% to 0.05% spread
+      instrument: DEFAULT_INSTRUMENT,
+      agents: DEFAULT_AGENTS,
+      faults: NO_FAULTS,
+      ...SCENARIOS[scenario].settings,
       ...config,
+      seed: this.seed,
+      scenario,
     };
+    this.random = createRandom(this.seed);
+    this.faults = this.createFaultInjector();
+    this.currentPrice = this.config.initialPrice;
+    this.matcher = matcher ?? new OrderMatcher({ instrument: this.config.instrument });
+    this.stats = new MarketStats(this.config.symbol, this.config.instrument);
+    this.setAgents(this.config.agents);
+
+    // Agents track their orders and positions from their own execution reports
+    this.matcher.subscribe(report => {
+      this.agentsByAccount.get(report.accountId ?? '')?.onExecutionReport(report);
+    });
   }
 
-  subscribe(callback: SubscriptionCallback): () => void {
+  subscribe(callback: MarketDataListener): () => void {
     this.subscribers.add(callback);
+    if (this.subscribers.size === 1) {
+      this.notifyState();
+    }
     
     if (!this.isRunning) {
       this.start();
+    } else {
+      // Late subscribers need a base for the deltas that follow
+      this.sendSnapshot(callback);
+      this.sendTicker(callback);
     }
 
     // Return unsubscribe function
     return () => {
-      this.subscribers.delete(callback);
-      if (this.subscribers.size === 0 && this.isRunning) {
+      if (!this.subscribers.delete(callback)) return;
+      if (this.subscribers.size === 0) {
         this.stop();
+        this.notifyState();
       }
     };
   }
 
+  onStateChange(listener: ConnectionStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  getState(): ConnectionState {
+    if (this.subscribers.size === 0) return 'closed';
+    return this.isDisconnected ? 'reconnecting' : 'open';
+  }
+
+  private notifyState(): void {
+    const state = this.getState();
+    this.stateListeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('Error in socket state listener:', error);
+      }
+    });
+  }
+
   start(): void {
     if (this.isRunning) return;
     
     this.isRunning = true;
+    // Deltas are not sent while stopped, so the first book after a restart is a snapshot
+    this.lastPublishedBook = null;
+
+    // Quote straight away so a new subscriber never sees an empty book
+    this.step();
     this.scheduleNextUpdate();
   }
 
@@ -49,125 +154,292 @@ class FakeSocket {
       this.intervalId = null;
     }
     this.isRunning = false;
+
+    // A paused feed sends nothing, so an outage in progress ends with it
+    if (this.reconnectTimerId) {
+      clearTimeout(this.reconnectTimerId);
+      this.reconnectTimerId = null;
+    }
+    this.faults.reset();
+    if (this.isDisconnected) {
+      this.isDisconnected = false;
+      this.notifyState();
+    }
   }
 
   updateConfig(newConfig: Partial<FakeSocketConfig>): void {
     this.config = { ...this.config, ...newConfig };
+    if (newConfig.seed !== undefined) {
+      this.reseed(newConfig.seed);
+    }
+    if (newConfig.agents) {
+      this.setAgents(newConfig.agents);
+    }
+    if (newConfig.faults) {
+      this.faults.updateConfig(newConfig.faults);
+    }
+  }
+
+  getAgents(): TradingAgent[] {
+    return [...this.agents];
+  }
+
+  // Replaces the population; the old agents' resting orders are cancelled
+  private setAgents(population: FakeSocketConfig['agents']): void {
+    const oldAccounts = new Set(this.agentsByAccount.keys());
+    this.matcher
+      .getOrders()
+      .filter(order => oldAccounts.has(order.accountId ?? ''))
+      .forEach(order => this.matcher.removeOrder(order.id));
+
+    this.agents = createAgents(population);
+    this.agentsByAccount = new Map(this.agents.map(agent => [agent.accountId, agent]));
+  }
+
+  /** Switches market behaviour to a preset, replacing any earlier settings */
+  setScenario(scenario: ScenarioName): void {
+    this.config = { ...this.config, ...SCENARIOS[scenario].settings, scenario };
+  }
+
+  getScenario(): ScenarioName {
+    return this.config.scenario ?? DEFAULT_SCENARIO;
+  }
+
+  /** Restarts the PRNG; the feed from here on depends only on the seed and the book */
+  reseed(seed: number): void {
+    this.seed = seed;
+    this.config = { ...this.config, seed };
+    this.random = createRandom(seed);
+    this.faults.reset();
+    this.faults = this.createFaultInjector();
+  }
+
+  private createFaultInjector(): FaultInjector {
+    return new FaultInjector(
+      this.config.faults,
+      createRandom((this.seed ^ FAULT_SEED_MIX) >>> 0),
+      // Messages still in flight when a subscriber leaves are lost
+      (callback, message) => {
+        if (this.subscribers.has(callback)) this.deliver(callback, message);
+      }
+    );
+  }
+
+  getSeed(): number {
+    return this.seed;
   }
 
   private scheduleNextUpdate(): void {
     if (!this.isRunning) return;
 
     const [min, max] = this.config.updateInterval;
-    const delay = Math.random() * (max - min) + min;
+    const delay = this.random() * (max - min) + min;
 
     this.intervalId = setTimeout(() => {
-      this.generateUpdate();
+      this.maybeDisconnect();
+
+      const { burstSize } = this.config;
+      const updates = burstSize > 1 ? 1 + Math.floor(this.random() * burstSize) : 1;
+      for (let i = 0; i < updates; i++) {
+        this.step();
+      }
       this.scheduleNextUpdate();
     }, delay);
   }
 
-  private generateUpdate(): void {
-    const updateType = Math.random();
-    
-    if (updateType < 0.8) {
-      // 80% chance of orderbook update
-      this.generateOrderBookUpdate();
-    } else {
-      // 20% chance of trade update
-      this.generateTradeUpdate();
-    }
+  // The market carries on during an outage; subscribers just stop hearing about it
+  private maybeDisconnect(): void {
+    const { disconnectRate, disconnectDuration } = this.config.faults;
+    if (this.isDisconnected || !this.faults.chance(disconnectRate)) return;
+
+    this.isDisconnected = true;
+    this.faults.reset();
+    this.notifyState();
+    this.reconnectTimerId = setTimeout(() => this.reconnect(), this.faults.pick(disconnectDuration));
   }
 
-  private generateOrderBookUpdate(): void {
-    // Update current price with some volatility
-    const priceChange = (Math.random() - 0.5) * this.currentPrice * this.config.priceVolatility;
-    this.currentPrice = Math.max(1000, this.currentPrice + priceChange);
+  private reconnect(): void {
+    this.reconnectTimerId = null;
+    this.isDisconnected = false;
+    this.notifyState();
 
-    const [minSpread, maxSpread] = this.config.spreadRange;
-    const spreadPercent = Math.random() * (maxSpread - minSpread) + minSpread;
-    const spread = this.currentPrice * spreadPercent;
-    const midPrice = this.currentPrice;
+    // Like a late subscriber, a reconnected one needs a base for the deltas that follow
+    this.subscribers.forEach(callback => {
+      this.sendSnapshot(callback);
+      this.sendTicker(callback);
+    });
+  }
 
-    const bids = this.generateOrderBookSide('buy', midPrice - spread / 2, 20);
-    const asks = this.generateOrderBookSide('sell', midPrice + spread / 2, 20);
+  // One simulation step: the fair value moves, then every agent takes a turn
+  private step(): void {
+    // Update fair value with some volatility, the scenario's drift and any jump
+    const { priceVolatility, priceDrift, jumpProbability, jumpSize } = this.config;
+    let priceChange = ((this.random() - 0.5) * priceVolatility + priceDrift) * this.currentPrice;
+    if (jumpProbability > 0 && this.random() < jumpProbability) {
+      priceChange += this.currentPrice * jumpSize;
+    }
+    // Never drift below 2% of the starting price
+    this.currentPrice = Math.max(this.config.initialPrice / 50, this.currentPrice + priceChange);
+
+    const context = this.createAgentContext();
+    const trades: Trade[] = [];
+    // A fresh turn order each step so no agent always gets the first look
+    this.shuffleAgents().forEach(agent => {
+      trades.push(...agent.act(context));
+    });
+
+    this.stepCount++;
+    this.publish(trades);
+  }
 
-    const orderBook: OrderBook = {
-      bids,
-      asks,
-      midPrice,
-      spread,
+  private createAgentContext(): AgentContext {
+    const { instrument, spreadRange, ordersPerSide, volumeRange } = this.config;
+    const makerCount = Math.max(1, this.config.agents.marketMakers.count);
+
+    return {
+      matcher: this.matcher,
+      random: this.random,
+      instrument,
+      fairValue: this.currentPrice,
+      spreadRange,
+      quotesPerSide: Math.ceil(ordersPerSide / makerCount),
+      typicalQuantity: (volumeRange[0] + volumeRange[1]) / 2,
+      step: this.stepCount,
+      createOrder: (accountId, side, type, price = 0) => ({
+        ...this.createOrder(side, type, accountId),
+        price,
+      }),
     };
+  }
 
-    this.broadcast({
-      type: 'orderbook',
-      data: orderBook,
-      timestamp: Date.now(),
-    });
+  private shuffleAgents(): TradingAgent[] {
+    const agents = [...this.agents];
+    for (let i = agents.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [agents[i], agents[j]] = [agents[j], agents[i]];
+    }
+    return agents;
   }
 
-  private generateOrderBookSide(side: 'buy' | 'sell', startPrice: number, levels: number) {
-    const result = [];
+  private createOrder(side: 'buy' | 'sell', type: 'limit' | 'market', accountId: string): Order {
+    const { instrument, symbol } = this.config;
     const [minVol, maxVol] = this.config.volumeRange;
-    
-    let currentPrice = startPrice;
-    let runningTotal = 0;
-
-    for (let i = 0; i < levels; i++) {
-      const quantity = Math.random() * (maxVol - minVol) + minVol;
-      const priceStep = this.currentPrice * (0.0001 + Math.random() * 0.0005); // 0.01% to 0.05% steps
-      
-      if (side === 'buy') {
-        currentPrice -= priceStep;
-      } else {
-        currentPrice += priceStep;
-      }
-
-      runningTotal += quantity;
+    const lots = Math.max(
+      quantityToLots(instrument.minQuantity, instrument),
+      quantityToLots(this.random() * (maxVol - minVol) + minVol, instrument)
+    );
+
+    return {
+      id: `${symbol}_sim_${this.sequenceId++}`,
+      price: 0,
+      quantity: lotsToQuantity(lots, instrument),
+      side,
+      type,
+      timestamp: Date.now(),
+      accountId,
+      symbol,
+    };
+  }
 
-      result.push({
-        price: Math.round(currentPrice * 100) / 100,
-        quantity: Math.round(quantity * 10000) / 10000,
-        total: Math.round(runningTotal * 10000) / 10000,
-        count: Math.floor(Math.random() * 5) + 1,
+  /**
+   * Publishes trades, the ticker they move and the book they produced, in
+   * that order. Also called after user orders so every book change is
+   * sequenced and user trades count towards the statistics.
+   */
+  publish(trades: Trade[] = []): void {
+    trades.forEach(trade => {
+      this.stats.addTrade(trade);
+      this.broadcast({
+        type: 'trade',
+        symbol: this.config.symbol,
+        data: trade,
+        timestamp: Date.now(),
       });
+    });
+
+    if (trades.length > 0) {
+      this.sendTicker();
+    }
+    this.publishBook();
+  }
+
+  // Publishes what changed in the book since the last snapshot or delta
+  private publishBook(): void {
+    if (!this.lastPublishedBook) {
+      this.sendSnapshot();
+      return;
     }
 
-    return result;
+    const book = this.matcher.getOrderBook();
+    const changes = diffOrderBooks(this.lastPublishedBook, book);
+    if (changes.length === 0) return;
+
+    this.lastPublishedBook = book;
+    this.broadcast({
+      type: 'delta',
+      symbol: this.config.symbol,
+      data: { sequence: ++this.bookSequence, changes },
+      timestamp: Date.now(),
+    });
   }
 
-  private generateTradeUpdate(): void {
-    const side = Math.random() > 0.5 ? 'buy' : 'sell';
-    const [minVol, maxVol] = this.config.volumeRange;
-    const quantity = Math.random() * (maxVol - minVol) + minVol;
-    
-    // Trade price should be close to current price
-    const priceVariation = this.currentPrice * 0.0005; // 0.05% variation
-    const tradePrice = this.currentPrice + (Math.random() - 0.5) * priceVariation;
-
-    const trade: Trade = {
-      id: `trade_${this.sequenceId++}`,
-      price: Math.round(tradePrice * 100) / 100,
-      quantity: Math.round(quantity * 10000) / 10000,
-      side,
+  /** Re-sends the full book, e.g. after a subscriber detects a sequence gap */
+  requestSnapshot(symbol: string = this.config.symbol): void {
+    if (symbol !== this.config.symbol) return;
+    this.sendSnapshot();
+  }
+
+  // Sends the current book to one subscriber, or to all of them
+  private sendSnapshot(callback?: MarketDataListener): void {
+    // A single late subscriber gets the book at the current sequence so the
+    // next delta still applies; a broadcast re-bases everyone on the live book
+    const book = callback && this.lastPublishedBook
+      ? this.lastPublishedBook
+      : this.matcher.getOrderBook();
+    const message: WebSocketMessage = {
+      type: 'snapshot',
+      symbol: this.config.symbol,
+      data: { sequence: this.bookSequence, bids: book.bids, asks: book.asks },
       timestamp: Date.now(),
     };
 
-    this.broadcast({
-      type: 'trade',
-      data: trade,
+    if (callback) {
+      this.deliver(callback, message);
+      return;
+    }
+
+    this.lastPublishedBook = book;
+    this.broadcast(message);
+  }
+
+  private sendTicker(callback?: MarketDataListener): void {
+    const marketData = this.stats.getMarketData();
+    if (!marketData) return;
+
+    const message: WebSocketMessage = {
+      type: 'ticker',
+      symbol: this.config.symbol,
+      data: marketData,
       timestamp: Date.now(),
-    });
+    };
+    if (callback) {
+      this.deliver(callback, message);
+    } else {
+      this.broadcast(message);
+    }
   }
 
   private broadcast(message: WebSocketMessage): void {
-    this.subscribers.forEach(callback => {
-      try {
-        callback(message);
-      } catch (error) {
-        console.error('Error in socket callback:', error);
-      }
-    });
+    if (this.isDisconnected) return;
+    this.subscribers.forEach(callback => this.faults.transmit(callback, message));
+  }
+
+  private deliver(callback: MarketDataListener, message: WebSocketMessage): void {
+    try {
+      callback(message);
+    } catch (error) {
+      console.error('Error in socket callback:', error);
+    }
   }
 
   // Public methods for testing and debugging
@@ -188,8 +460,5 @@ class FakeSocket {
   }
 }
 
-// Singleton instance
-export const fakeSocket = new FakeSocket();
-
-// Export for testing with different configs
+// One instance per symbol lives in the market registry (see ./markets)
 export { FakeSocket };
\ No newline at end of file
@@ -0,0 +1,95 @@
+import type { FaultConfig, MarketDataListener, WebSocketMessage } from '../types';
+import type { RandomSource } from './random';
+
+export const NO_FAULTS: FaultConfig = {
+  latency: [0, 0],
+  dropRate: 0,
+  duplicateRate: 0,
+  reorderRate: 0,
+  disconnectRate: 0,
+  disconnectDuration: [1000, 5000],
+};
+
+// A flaky connection: enough of every fault to exercise the store's recovery
+export const BAD_NETWORK: FaultConfig = {
+  latency: [20, 400],
+  dropRate: 0.02,
+  duplicateRate: 0.02,
+  reorderRate: 0.05,
+  disconnectRate: 0.005,
+  disconnectDuration: [1000, 4000],
+};
+
+type Deliver = (callback: MarketDataListener, message: WebSocketMessage) => void;
+
+/**
+ * Delivers messages to subscribers the way a bad network would: late, out of
+ * order, twice or not at all. With NO_FAULTS delivery is immediate and draws
+ * nothing from the random source.
+ */
+export class FaultInjector {
+  // Per subscriber, a message waiting to go out behind the next one
+  private heldBack = new Map<MarketDataListener, WebSocketMessage>();
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(
+    private config: FaultConfig,
+    private random: RandomSource,
+    private deliver: Deliver
+  ) {}
+
+  updateConfig(config: FaultConfig): void {
+    this.config = config;
+  }
+
+  transmit(callback: MarketDataListener, message: WebSocketMessage): void {
+    const { dropRate, duplicateRate, reorderRate } = this.config;
+    if (this.chance(dropRate)) return;
+
+    const held = this.heldBack.get(callback);
+    if (!held && this.chance(reorderRate)) {
+      this.heldBack.set(callback, message);
+      return;
+    }
+    this.heldBack.delete(callback);
+
+    this.send(callback, message);
+    if (this.chance(duplicateRate)) {
+      this.send(callback, message);
+    }
+    if (held) {
+      this.send(callback, held);
+    }
+  }
+
+  /** Forgets everything in flight, as a dropped connection would */
+  reset(): void {
+    this.timers.forEach(timerId => clearTimeout(timerId));
+    this.timers.clear();
+    this.heldBack.clear();
+  }
+
+  /** True with the given probability; never draws for a zero rate */
+  chance(rate: number): boolean {
+    return rate > 0 && this.random() < rate;
+  }
+
+  /** A uniform pick from a min, max range; never draws for an empty range */
+  pick([min, max]: [number, number]): number {
+    return max > min ? min + this.random() * (max - min) : min;
+  }
+
+  private send(callback: MarketDataListener, message: WebSocketMessage): void {
+    const delay = this.pick(this.config.latency);
+    if (delay <= 0) {
+      this.deliver(callback, message);
+      return;
+    }
+
+    const timerId = setTimeout(() => {
+      this.timers.delete(timerId);
+      this.deliver(callback, message);
+    }, delay);
+    this.timers.add(timerId);
+  }
+}
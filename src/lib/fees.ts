@@ -0,0 +1,116 @@
+import type {
+  FeeModel,
+  FeeSchedule,
+  FeeTier,
+  Fill,
+  InstrumentSpec,
+  Liquidity,
+  TradeFees,
+} from '../types';
+import { roundAmount } from './accounts';
+import { roundToQuote } from './instrument';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rates are fractions of the notional: 0.001 is 0.10%, or 10 bps
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  tiers: [
+    { minVolume: 0, makerRate: 0.001, takerRate: 0.002 },
+    { minVolume: 100000, makerRate: 0.0006, takerRate: 0.0015 },
+    { minVolume: 1000000, makerRate: 0, takerRate: 0.001 },
+    { minVolume: 10000000, makerRate: -0.0001, takerRate: 0.0008 },
+  ],
+  volumeWindowDays: 30,
+};
+
+/** The best tier `volume` reaches */
+export const getFeeTier = (schedule: FeeSchedule, volume: number): FeeTier =>
+  schedule.tiers.reduce((best, tier) => (volume >= tier.minVolume ? tier : best));
+
+export const getFeeRate = (tier: FeeTier, liquidity: Liquidity): number =>
+  liquidity === 'maker' ? tier.makerRate : tier.takerRate;
+
+// Rounded to the smallest quote amount the instrument can trade
+export const getFee = (notional: number, rate: number, spec: InstrumentSpec): number =>
+  roundToQuote(notional * rate, spec);
+
+// Volume is kept per UTC day, so the window covers today and the days before it
+const getWindowStart = (schedule: FeeSchedule, now: number): number =>
+  (Math.floor(now / DAY_MS) - schedule.volumeWindowDays + 1) * DAY_MS;
+
+/** Quote volume of `fills` inside the schedule's rolling window */
+export const getFillVolume = (fills: Fill[], schedule: FeeSchedule, now = Date.now()): number => {
+  const windowStart = getWindowStart(schedule, now);
+  return roundAmount(
+    fills
+      .filter(fill => fill.timestamp >= windowStart)
+      .reduce((sum, fill) => sum + fill.price * fill.quantity, 0)
+  );
+};
+
+// The tier the engine charges an account at, worked out from the account's own fills
+export const getFillTier = (fills: Fill[], schedule: FeeSchedule, now = Date.now()): FeeTier =>
+  getFeeTier(schedule, getFillVolume(fills, schedule, now));
+
+/**
+ * Charges each trade at the maker's and taker's current tiers, then adds the
+ * notional to both accounts' volume. Volume is bucketed by day, so an account
+ * that trades all session holds at most one bucket per day of the window.
+ */
+export class FeeCalculator implements FeeModel {
+  private volumes = new Map<string, Map<number, number>>();
+
+  constructor(private schedule: FeeSchedule = DEFAULT_FEE_SCHEDULE) {}
+
+  getSchedule(): FeeSchedule {
+    return this.schedule;
+  }
+
+  getVolume(accountId: string, now = Date.now()): number {
+    const days = this.volumes.get(accountId);
+    if (!days) return 0;
+
+    const firstDay = getWindowStart(this.schedule, now) / DAY_MS;
+    let volume = 0;
+    days.forEach((notional, day) => {
+      if (day >= firstDay) {
+        volume += notional;
+      } else {
+        days.delete(day);
+      }
+    });
+    return roundAmount(volume);
+  }
+
+  getTier(accountId: string | undefined, now = Date.now()): FeeTier {
+    return getFeeTier(this.schedule, accountId ? this.getVolume(accountId, now) : 0);
+  }
+
+  chargeTrade(
+    makerAccountId: string | undefined,
+    takerAccountId: string | undefined,
+    notional: number,
+    timestamp: number,
+    spec: InstrumentSpec
+  ): TradeFees {
+    const fees = {
+      makerFee: getFee(notional, this.getTier(makerAccountId, timestamp).makerRate, spec),
+      takerFee: getFee(notional, this.getTier(takerAccountId, timestamp).takerRate, spec),
+    };
+    this.addVolume(makerAccountId, notional, timestamp);
+    this.addVolume(takerAccountId, notional, timestamp);
+    return fees;
+  }
+
+  addVolume(accountId: string | undefined, notional: number, timestamp = Date.now()): void {
+    if (!accountId) return;
+
+    let days = this.volumes.get(accountId);
+    if (!days) {
+      days = new Map();
+      this.volumes.set(accountId, days);
+    }
+    const day = Math.floor(timestamp / DAY_MS);
+    days.set(day, (days.get(day) ?? 0) + notional);
+  }
+}
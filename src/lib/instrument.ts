@@ -0,0 +1,156 @@
+import type { InstrumentSpec, OrderReason } from '../types';
+
+export const DEFAULT_INSTRUMENT: InstrumentSpec = {
+  tickSize: 0.01,
+  lotSize: 0.0001,
+  minQuantity: 0.0001,
+  minNotional: 1,
+};
+
+// Tolerance for deciding whether a float sits on the tick/lot grid
+const GRID_EPSILON = 1e-6;
+
+/** Number of decimal places needed to represent multiples of `step` */
+export const getDecimals = (step: number): number => {
+  const [mantissa, exponent] = step.toExponential().split('e');
+  const fractionDigits = mantissa.split('.')[1]?.length ?? 0;
+  return Math.max(0, fractionDigits - parseInt(exponent, 10));
+};
+
+const roundTo = (value: number, decimals: number): number =>
+  Number(value.toFixed(decimals));
+
+const isOnGrid = (value: number, step: number): boolean => {
+  const steps = value / step;
+  return Math.abs(steps - Math.round(steps)) < GRID_EPSILON;
+};
+
+// Prices and quantities are converted to integer ticks and lots so the matching
+// engine never accumulates float error when adding or subtracting them.
+
+export const priceToTicks = (price: number, spec: InstrumentSpec): number =>
+  Math.round(price / spec.tickSize);
+
+export const ticksToPrice = (ticks: number, spec: InstrumentSpec): number =>
+  roundTo(ticks * spec.tickSize, getDecimals(spec.tickSize));
+
+export const quantityToLots = (quantity: number, spec: InstrumentSpec): number =>
+  Math.round(quantity / spec.lotSize);
+
+export const lotsToQuantity = (lots: number, spec: InstrumentSpec): number =>
+  roundTo(lots * spec.lotSize, getDecimals(spec.lotSize));
+
+// A price times a quantity, such as a notional or a fee, needs the decimals of both
+const getQuoteDecimals = (spec: InstrumentSpec): number =>
+  getDecimals(spec.tickSize) + getDecimals(spec.lotSize);
+
+/** Price times quantity, multiplied out in whole ticks and lots */
+export const toNotional = (ticks: number, lots: number, spec: InstrumentSpec): number =>
+  roundTo(ticks * lots * spec.tickSize * spec.lotSize, getQuoteDecimals(spec));
+
+export const roundToQuote = (amount: number, spec: InstrumentSpec): number =>
+  roundTo(amount, getQuoteDecimals(spec));
+
+export const roundToTick = (price: number, spec: InstrumentSpec): number =>
+  ticksToPrice(priceToTicks(price, spec), spec);
+
+export const roundToLot = (quantity: number, spec: InstrumentSpec): number =>
+  lotsToQuantity(quantityToLots(quantity, spec), spec);
+
+export const formatPrice = (price: number, spec: InstrumentSpec): string =>
+  price.toFixed(getDecimals(spec.tickSize));
+
+export const formatQuantity = (quantity: number, spec: InstrumentSpec): string =>
+  quantity.toFixed(getDecimals(spec.lotSize));
+
+export interface InstrumentViolation {
+  field: 'price' | 'stopPrice' | 'protectionPrice' | 'quantity' | 'displayQuantity';
+  reason: OrderReason;
+  message: string;
+}
+
+/**
+ * Checks order values against the instrument's tick size, lot size, minimum
+ * quantity and minimum notional. Omit `price` for market orders.
+ */
+export const checkInstrumentRules = (
+  spec: InstrumentSpec,
+  values: {
+    price?: number;
+    stopPrice?: number;
+    protectionPrice?: number;
+    quantity: number;
+    displayQuantity?: number;
+  }
+): InstrumentViolation[] => {
+  const violations: InstrumentViolation[] = [];
+  const { price, stopPrice, protectionPrice, quantity, displayQuantity } = values;
+
+  if (price !== undefined && !isOnGrid(price, spec.tickSize)) {
+    violations.push({
+      field: 'price',
+      reason: 'invalid_tick_size',
+      message: `Price must be a multiple of the tick size ${formatPrice(spec.tickSize, spec)}`,
+    });
+  }
+
+  if (stopPrice !== undefined && !isOnGrid(stopPrice, spec.tickSize)) {
+    violations.push({
+      field: 'stopPrice',
+      reason: 'invalid_tick_size',
+      message: `Stop price must be a multiple of the tick size ${formatPrice(spec.tickSize, spec)}`,
+    });
+  }
+
+  if (protectionPrice !== undefined && !isOnGrid(protectionPrice, spec.tickSize)) {
+    violations.push({
+      field: 'protectionPrice',
+      reason: 'invalid_tick_size',
+      message: `Protection price must be a multiple of the tick size ${formatPrice(spec.tickSize, spec)}`,
+    });
+  }
+
+  if (!isOnGrid(quantity, spec.lotSize)) {
+    violations.push({
+      field: 'quantity',
+      reason: 'invalid_lot_size',
+      message: `Quantity must be a multiple of the lot size ${formatQuantity(spec.lotSize, spec)}`,
+    });
+  } else if (quantityToLots(quantity, spec) < quantityToLots(spec.minQuantity, spec)) {
+    violations.push({
+      field: 'quantity',
+      reason: 'below_min_quantity',
+      message: `Quantity must be at least ${formatQuantity(spec.minQuantity, spec)}`,
+    });
+  } else if (price !== undefined && price * quantity < spec.minNotional) {
+    violations.push({
+      field: 'quantity',
+      reason: 'below_min_notional',
+      message: `Order value must be at least ${formatPrice(spec.minNotional, spec)}`,
+    });
+  }
+
+  if (displayQuantity !== undefined) {
+    if (!isOnGrid(displayQuantity, spec.lotSize)) {
+      violations.push({
+        field: 'displayQuantity',
+        reason: 'invalid_lot_size',
+        message: `Display quantity must be a multiple of the lot size ${formatQuantity(spec.lotSize, spec)}`,
+      });
+    } else if (quantityToLots(displayQuantity, spec) < quantityToLots(spec.minQuantity, spec)) {
+      violations.push({
+        field: 'displayQuantity',
+        reason: 'below_min_quantity',
+        message: `Display quantity must be at least ${formatQuantity(spec.minQuantity, spec)}`,
+      });
+    } else if (quantityToLots(displayQuantity, spec) > quantityToLots(quantity, spec)) {
+      violations.push({
+        field: 'displayQuantity',
+        reason: 'invalid_display_quantity',
+        message: 'Display quantity cannot be larger than the order quantity',
+      });
+    }
+  }
+
+  return violations;
+};
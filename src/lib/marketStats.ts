@@ -0,0 +1,85 @@
+import type { InstrumentSpec, MarketData, Trade } from '../types';
+import { lotsToQuantity, priceToTicks, quantityToLots, ticksToPrice } from './instrument';
+
+export const STATS_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface WindowTrade {
+  ticks: number;
+  lots: number;
+  timestamp: number;
+}
+
+/**
+ * Rolling ticker statistics over a trailing time window. The change is
+ * measured from the oldest trade still in the window.
+ */
+export class MarketStats {
+  private window: WindowTrade[] = [];
+  private volumeLots = 0;
+  private highTicks = -Infinity;
+  private lowTicks = Infinity;
+
+  constructor(
+    private symbol: string,
+    private instrument: InstrumentSpec,
+    private windowMs = STATS_WINDOW_MS
+  ) {}
+
+  addTrade(trade: Trade): void {
+    const ticks = priceToTicks(trade.price, this.instrument);
+    const lots = quantityToLots(trade.quantity, this.instrument);
+
+    this.window.push({ ticks, lots, timestamp: trade.timestamp });
+    this.volumeLots += lots;
+    this.highTicks = Math.max(this.highTicks, ticks);
+    this.lowTicks = Math.min(this.lowTicks, ticks);
+  }
+
+  /** Current statistics, or null until a trade has printed inside the window */
+  getMarketData(now = Date.now()): MarketData | null {
+    this.evictBefore(now - this.windowMs);
+    if (this.window.length === 0) return null;
+
+    const openTicks = this.window[0].ticks;
+    const lastTicks = this.window[this.window.length - 1].ticks;
+    const changeTicks = lastTicks - openTicks;
+
+    return {
+      symbol: this.symbol,
+      lastPrice: ticksToPrice(lastTicks, this.instrument),
+      priceChange: ticksToPrice(changeTicks, this.instrument),
+      priceChangePercent: Number(((changeTicks / openTicks) * 100).toFixed(2)),
+      volume24h: lotsToQuantity(this.volumeLots, this.instrument),
+      high24h: ticksToPrice(this.highTicks, this.instrument),
+      low24h: ticksToPrice(this.lowTicks, this.instrument),
+    };
+  }
+
+  clear(): void {
+    this.window = [];
+    this.volumeLots = 0;
+    this.highTicks = -Infinity;
+    this.lowTicks = Infinity;
+  }
+
+  private evictBefore(cutoff: number): void {
+    let evicted = 0;
+    let extremeEvicted = false;
+
+    while (evicted < this.window.length && this.window[evicted].timestamp < cutoff) {
+      const { ticks, lots } = this.window[evicted];
+      this.volumeLots -= lots;
+      extremeEvicted = extremeEvicted || ticks === this.highTicks || ticks === this.lowTicks;
+      evicted++;
+    }
+
+    if (evicted === 0) return;
+    this.window = this.window.slice(evicted);
+
+    // Only rescan when a trade that set the high or low has left the window
+    if (extremeEvicted) {
+      this.highTicks = this.window.reduce((high, trade) => Math.max(high, trade.ticks), -Infinity);
+      this.lowTicks = this.window.reduce((low, trade) => Math.min(low, trade.ticks), Infinity);
+    }
+  }
+}
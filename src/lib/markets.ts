@@ -0,0 +1,160 @@
+import type { MarketRegistryOptions, ScenarioName, SymbolSpec } from '../types';
+import { OrderMatcher } from './orderMatcher';
+import { FakeSocket } from './fakeSocket';
+import { DEFAULT_INSTRUMENT } from './instrument';
+import { randomSeed } from './random';
+import { DEFAULT_SCENARIO, isScenarioName } from './scenarios';
+import { BAD_NETWORK, NO_FAULTS } from './faults';
+import { DEFAULT_FEE_SCHEDULE, FeeCalculator } from './fees';
+
+export const SYMBOL_SPECS: SymbolSpec[] = [
+  {
+    symbol: 'BTC-USD',
+    baseAsset: 'BTC',
+    quoteAsset: 'USD',
+    initialPrice: 50000,
+    volumeRange: [0.1, 5.0],
+    instrument: DEFAULT_INSTRUMENT,
+  },
+  {
+    symbol: 'ETH-USD',
+    baseAsset: 'ETH',
+    quoteAsset: 'USD',
+    initialPrice: 3000,
+    volumeRange: [1, 50],
+    instrument: { tickSize: 0.01, lotSize: 0.001, minQuantity: 0.001, minNotional: 1 },
+  },
+  {
+    symbol: 'SOL-USD',
+    baseAsset: 'SOL',
+    quoteAsset: 'USD',
+    initialPrice: 150,
+    volumeRange: [10, 500],
+    instrument: { tickSize: 0.001, lotSize: 0.01, minQuantity: 0.01, minNotional: 1 },
+  },
+];
+
+export const DEFAULT_SYMBOL = SYMBOL_SPECS[0].symbol;
+
+// A tradable symbol: its own matching engine and its own market data stream
+export interface Market {
+  spec: SymbolSpec;
+  matcher: OrderMatcher;
+  feed: FakeSocket;
+}
+
+// Query parameters that reproduce a simulation: ?seed=42&scenario=flash-crash
+export const SEED_URL_PARAM = 'seed';
+export const SCENARIO_URL_PARAM = 'scenario';
+// ?faults=1 runs every feed over a bad network
+export const FAULTS_URL_PARAM = 'faults';
+
+export type { MarketRegistryOptions };
+
+/** Reads simulation options from a query string, ignoring invalid values */
+export const parseSimulationParams = (search: string): Partial<MarketRegistryOptions> => {
+  const params = new URLSearchParams(search);
+  const seedParam = params.get(SEED_URL_PARAM);
+  const seed = seedParam ? Number(seedParam) : NaN;
+  const scenario = params.get(SCENARIO_URL_PARAM) ?? '';
+
+  return {
+    ...(Number.isInteger(seed) ? { seed } : {}),
+    ...(isScenarioName(scenario) ? { scenario } : {}),
+    ...(params.get(FAULTS_URL_PARAM) === '1' ? { networkFaults: true } : {}),
+  };
+};
+
+export class MarketRegistry {
+  private markets = new Map<string, Market>();
+  private seed: number;
+  private scenario: ScenarioName;
+  private networkFaults: boolean;
+  // One calculator for every symbol: volume on any of them counts toward the tier
+  private fees: FeeCalculator;
+
+  constructor(specs: SymbolSpec[] = SYMBOL_SPECS, options: Partial<MarketRegistryOptions> = {}) {
+    this.seed = options.seed ?? randomSeed();
+    this.scenario = options.scenario ?? DEFAULT_SCENARIO;
+    this.networkFaults = options.networkFaults ?? false;
+    this.fees = new FeeCalculator(options.feeSchedule ?? DEFAULT_FEE_SCHEDULE);
+    specs.forEach(spec => this.register(spec));
+  }
+
+  register(spec: SymbolSpec): Market {
+    if (this.markets.has(spec.symbol)) {
+      throw new Error(`Symbol ${spec.symbol} is already registered`);
+    }
+
+    // The feed trades through the same matcher that user orders go to
+    const matcher = new OrderMatcher({ instrument: spec.instrument, fees: this.fees });
+    const market: Market = {
+      spec,
+      matcher,
+      feed: new FakeSocket(
+        {
+          symbol: spec.symbol,
+          initialPrice: spec.initialPrice,
+          volumeRange: spec.volumeRange,
+          instrument: spec.instrument,
+          seed: (this.seed + this.markets.size) >>> 0,
+          scenario: this.scenario,
+          faults: this.networkFaults ? BAD_NETWORK : NO_FAULTS,
+        },
+        matcher
+      ),
+    };
+    this.markets.set(spec.symbol, market);
+    return market;
+  }
+
+  get(symbol: string): Market {
+    const market = this.markets.get(symbol);
+    if (!market) {
+      throw new Error(`Unknown symbol: ${symbol}`);
+    }
+    return market;
+  }
+
+  has(symbol: string): boolean {
+    return this.markets.has(symbol);
+  }
+
+  getSymbols(): SymbolSpec[] {
+    return this.getAll().map(market => market.spec);
+  }
+
+  getAll(): Market[] {
+    return [...this.markets.values()];
+  }
+
+  getFees(): FeeCalculator {
+    return this.fees;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getScenario(): ScenarioName {
+    return this.scenario;
+  }
+
+  /** Applies a scenario to every symbol's simulator */
+  setScenario(scenario: ScenarioName): void {
+    this.scenario = scenario;
+    this.getAll().forEach(({ feed }) => feed.setScenario(scenario));
+  }
+
+  hasNetworkFaults(): boolean {
+    return this.networkFaults;
+  }
+
+  /** Runs every symbol's feed over a bad network, or a perfect one */
+  setNetworkFaults(enabled: boolean): void {
+    this.networkFaults = enabled;
+    this.getAll().forEach(({ feed }) =>
+      feed.updateConfig({ faults: enabled ? BAD_NETWORK : NO_FAULTS })
+    );
+  }
+}
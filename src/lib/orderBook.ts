@@ -0,0 +1,122 @@
+import type { BookLevelChange, InstrumentSpec, OrderBook, OrderBookLevel } from '../types';
+import { getDecimals, lotsToQuantity, quantityToLots, roundToTick } from './instrument';
+
+type Side = BookLevelChange['side'];
+
+export const BOOK_DEPTH = 20;
+
+// Re-derives running totals, best-first, for one side of the book
+const withTotals = (levels: OrderBookLevel[], spec: InstrumentSpec): OrderBookLevel[] => {
+  let runningLots = 0;
+
+  return levels.map(level => {
+    runningLots += quantityToLots(level.quantity, spec);
+    return { ...level, total: lotsToQuantity(runningLots, spec) };
+  });
+};
+
+const getMidAndSpread = (
+  bids: OrderBookLevel[],
+  asks: OrderBookLevel[],
+  spec: InstrumentSpec
+): Pick<OrderBook, 'midPrice' | 'spread'> => {
+  const bestBid = bids[0]?.price;
+  const bestAsk = asks[0]?.price;
+  if (bestBid === undefined || bestAsk === undefined) {
+    return { midPrice: 0, spread: 0 };
+  }
+
+  return {
+    // The mid can fall on a half tick, so keep one extra decimal
+    midPrice: Number(((bestBid + bestAsk) / 2).toFixed(getDecimals(spec.tickSize) + 1)),
+    spread: roundToTick(bestAsk - bestBid, spec),
+  };
+};
+
+/** Builds a full OrderBook (totals, mid and spread) from best-first levels */
+export const buildOrderBook = (
+  bids: OrderBookLevel[],
+  asks: OrderBookLevel[],
+  spec: InstrumentSpec
+): OrderBook => ({
+  bids: withTotals(bids, spec),
+  asks: withTotals(asks, spec),
+  ...getMidAndSpread(bids, asks, spec),
+});
+
+const applySideChanges = (
+  levels: OrderBookLevel[],
+  side: Side,
+  changes: BookLevelChange[],
+  spec: InstrumentSpec,
+  depth: number
+): OrderBookLevel[] => {
+  const byPrice = new Map(levels.map(level => [level.price, level]));
+
+  changes.forEach(({ price, quantity, count }) => {
+    if (quantity === 0) {
+      byPrice.delete(price);
+    } else {
+      byPrice.set(price, { price, quantity, total: 0, count });
+    }
+  });
+
+  const sorted = [...byPrice.values()].sort((a, b) =>
+    side === 'buy' ? b.price - a.price : a.price - b.price
+  );
+  return withTotals(sorted.slice(0, depth), spec);
+};
+
+/**
+ * Applies level changes to a book. A side with no changes keeps its array
+ * so memoized rows for it do not re-render.
+ */
+export const applyBookChanges = (
+  book: OrderBook,
+  changes: BookLevelChange[],
+  spec: InstrumentSpec,
+  depth = BOOK_DEPTH
+): OrderBook => {
+  const bidChanges = changes.filter(change => change.side === 'buy');
+  const askChanges = changes.filter(change => change.side === 'sell');
+
+  const bids = bidChanges.length > 0
+    ? applySideChanges(book.bids, 'buy', bidChanges, spec, depth)
+    : book.bids;
+  const asks = askChanges.length > 0
+    ? applySideChanges(book.asks, 'sell', askChanges, spec, depth)
+    : book.asks;
+
+  return { bids, asks, ...getMidAndSpread(bids, asks, spec) };
+};
+
+const diffSide = (
+  previous: OrderBookLevel[],
+  next: OrderBookLevel[],
+  side: Side
+): BookLevelChange[] => {
+  const changes: BookLevelChange[] = [];
+  const nextByPrice = new Map(next.map(level => [level.price, level]));
+
+  previous.forEach(level => {
+    if (!nextByPrice.has(level.price)) {
+      changes.push({ side, price: level.price, quantity: 0, count: 0 });
+    }
+  });
+
+  const previousByPrice = new Map(previous.map(level => [level.price, level]));
+  next.forEach(level => {
+    const before = previousByPrice.get(level.price);
+    if (!before || before.quantity !== level.quantity || before.count !== level.count) {
+      changes.push({ side, price: level.price, quantity: level.quantity, count: level.count });
+    }
+  });
+
+  return changes;
+};
+
+/** Level changes that turn `previous` into `next`; quantity 0 removes a level */
+export const diffOrderBooks = (previous: OrderBook, next: OrderBook): BookLevelChange[] => [
+  ...diffSide(previous.bids, next.bids, 'buy'),
+  ...diffSide(previous.asks, next.asks, 'sell'),
+];
@@ -1,189 +1,858 @@
-import type { Order, OrderBook, Trade, OrderBookLevel } from '../types';
+import type {
+  Order,
+  OrderBook,
+  Trade,
+  OrderBookLevel,
+  AddOrderResult,
+  OrderAmendment,
+  OrderReason,
+  OrderStatus,
+  OrderMatcherConfig,
+  CancelledOrder,
+  ExecutionReport,
+  ExecutionType,
+  Liquidity,
+} from '../types';
+import {
+  DEFAULT_INSTRUMENT,
+  checkInstrumentRules,
+  getDecimals,
+  lotsToQuantity,
+  priceToTicks,
+  quantityToLots,
+  ticksToPrice,
+  toNotional,
+} from './instrument';
+import { BOOK_DEPTH } from './orderBook';
+
+type Side = Order['side'];
+
+export type ExecutionReportListener = (report: ExecutionReport) => void;
+
+export const ORDER_REASON_MESSAGES: Record<OrderReason, string> = {
+  insufficient_liquidity: 'Not enough liquidity to fill the market order',
+  ioc_remainder: 'Unfilled quantity cancelled (immediate-or-cancel)',
+  fok_unfilled: 'Order could not be filled in full (fill-or-kill)',
+  post_only_would_cross: 'Post-only order would have matched immediately',
+  invalid_expire_time: 'Good-till-date orders need an expiry time in the future',
+  expired: 'Order reached its expiry time',
+  invalid_stop_price: 'Stop orders need a stop price greater than 0',
+  stop_would_trigger_immediately: 'Stop price has already been reached by the last trade',
+  order_not_found: 'Order is no longer resting on the book',
+  invalid_amendment: 'Amended price and quantity must be greater than 0',
+  invalid_tick_size: 'Price is not a multiple of the tick size',
+  invalid_lot_size: 'Quantity is not a multiple of the lot size',
+  below_min_quantity: 'Quantity is below the instrument minimum',
+  below_min_notional: 'Order value is below the instrument minimum',
+  self_trade_prevention: 'Cancelled to prevent trading against your own order',
+  invalid_display_quantity: 'Only limit orders can show a display quantity, and it must fit the order',
+  slippage_limit: 'Unfilled quantity cancelled at the slippage limit',
+  invalid_slippage_limit: 'Slippage limits apply to market and stop orders and must not be negative',
+  insufficient_funds: 'Not enough available balance for the order',
+};
+
+const BPS_PER_UNIT = 10000;
+
+// Trades kept for getTrades(); the simulated market trades continuously
+const MAX_TRADE_HISTORY = 1000;
+
+// Prices are held as integer ticks and quantities as integer lots internally;
+// the public Order/Trade objects carry the equivalent decimal values.
+
+interface RestingOrder {
+  order: Order;
+  lots: number;
+  // Part of `lots` shown on the book; below `lots` only for iceberg orders
+  visibleLots: number;
+  level: PriceLevel;
+}
+
+// A single price level: resting orders queued in arrival (FIFO) order
+interface PriceLevel {
+  ticks: number;
+  lots: number;
+  visibleLots: number;
+  orders: RestingOrder[];
+}
+
+// Running totals for an order that is still live: resting, parked as a stop or
+// mid-match. Dropped once the order is filled, cancelled, rejected or expired.
+interface OrderState {
+  order: Order;
+  quantityLots: number;
+  cumLots: number;
+  leavesLots: number;
+  notionalTicks: number; // Sum of fill ticks * lots, for the average price
+  displayPeak?: number; // The iceberg peak as placed; the order's own is clamped to its size
+}
+
+// Reports after which an order is done
+export const TERMINAL_EXEC_TYPES: ReadonlySet<ExecutionType> = new Set([
+  'fill',
+  'cancelled',
+  'rejected',
+  'expired',
+]);
+
+const getReportStatus = (execType: ExecutionType, cumLots: number): OrderStatus => {
+  switch (execType) {
+    case 'fill':
+      return 'filled';
+    case 'cancelled':
+    case 'rejected':
+    case 'expired':
+      return execType;
+    default:
+      return cumLots > 0 ? 'partially_filled' : 'new';
+  }
+};
 
 export class OrderMatcher {
-  private orders: Order[] = [];
+  // Levels are kept sorted best-first: bids high to low, asks low to high
+  private bids: PriceLevel[] = [];
+  private asks: PriceLevel[] = [];
+  private levelsByTicks: Record<Side, Map<number, PriceLevel>> = {
+    buy: new Map(),
+    sell: new Map(),
+  };
+  private ordersById = new Map<string, RestingOrder>();
+  private gtdOrders = new Map<string, Order>();
+  private stopOrders: Record<Side, Order[]> = { buy: [], sell: [] };
+  private lastTradeTicks: number | null = null;
   private trades: Trade[] = [];
   private sequenceId = 0;
+  private orderStates = new Map<string, OrderState>();
+  private listeners: Set<ExecutionReportListener> = new Set();
+  private reportSequenceId = 0;
+  private config: OrderMatcherConfig;
 
-  addOrder(order: Order): { trades: Trade[]; remainingOrder: Order | null } {
+  constructor(config: Partial<OrderMatcherConfig> = {}) {
+    this.config = {
+      instrument: DEFAULT_INSTRUMENT,
+      selfTradePrevention: 'cancel_newest',
+      ...config,
+    };
+  }
+
+  private get instrument() {
+    return this.config.instrument;
+  }
+
+  getInstrument() {
+    return this.config.instrument;
+  }
+
+  updateConfig(newConfig: Partial<Omit<OrderMatcherConfig, 'instrument'>>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Registers a listener for execution reports on every order the matcher
+   * handles, in the order events happen. Returns an unsubscribe function.
+   */
+  subscribe(listener: ExecutionReportListener): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  addOrder(order: Order): AddOrderResult {
+    const expiredOrders = this.expireOrders();
+    const result = this.executeOrder(order, expiredOrders);
+
+    // Every batch of trades may move the last price through resting stops
+    const triggeredOrders = result.trades.length > 0 ? this.triggerStopOrders(expiredOrders) : [];
+
+    return {
+      ...result,
+      trades: [...result.trades, ...triggeredOrders.flatMap(triggered => triggered.trades)],
+      cancelledOrders: [
+        ...result.cancelledOrders,
+        ...triggeredOrders.flatMap(triggered => triggered.cancelledOrders),
+      ],
+      triggeredOrders,
+    };
+  }
+
+  private executeOrder(order: Order, expiredOrders: Order[]): AddOrderResult {
     const newTrades: Trade[] = [];
-    let remainingOrder: Order | null = { ...order };
+    const cancelledOrders: CancelledOrder[] = [];
+    const timeInForce = order.timeInForce ?? 'gtc';
 
-    if (order.type === 'market') {
-      remainingOrder = this.matchMarketOrder(order, newTrades);
-    } else {
-      remainingOrder = this.matchLimitOrder(order, newTrades);
+    const finish = (
+      status: OrderStatus,
+      remainingOrder: Order | null,
+      reason?: OrderReason
+    ): AddOrderResult => ({
+      trades: newTrades,
+      remainingOrder,
+      status,
+      reason,
+      ...this.summarizeFills(newTrades),
+      expiredOrders,
+      cancelledOrders,
+      triggeredOrders: [],
+    });
+
+    const rejection = this.validateOrder(order);
+    if (rejection) {
+      this.report(this.trackOrder(order), 'rejected', { reason: rejection });
+      return finish('rejected', null, rejection);
     }
 
-    // Add remaining order to book if it exists
-    if (remainingOrder && remainingOrder.quantity > 0) {
-      this.orders.push(remainingOrder);
+    const isStop = order.type === 'stop' || order.type === 'stop-limit';
+
+    // Triggered stops and amended orders are already tracked and keep their totals
+    const isTracked = this.orderStates.has(order.id);
+    const state = this.trackOrder(order);
+    if (!isTracked) {
+      this.report(state, 'new');
     }
 
+    if (isStop) {
+      // Parked in the trigger book until the last trade price reaches the stop
+      this.restStopOrder(order);
+      return finish('new', order);
+    }
+
+    const orderLots = quantityToLots(order.quantity, this.instrument);
+    const { remainingLots, selfTradeCancelled } = this.matchAgainstBook(
+      order,
+      newTrades,
+      cancelledOrders
+    );
+
     // Add new trades to history
     this.trades.push(...newTrades);
+    if (this.trades.length > MAX_TRADE_HISTORY) {
+      this.trades.splice(0, this.trades.length - MAX_TRADE_HISTORY);
+    }
+    if (newTrades.length > 0) {
+      this.lastTradeTicks = priceToTicks(newTrades[newTrades.length - 1].price, this.instrument);
+    }
+
+    const filledLots = newTrades.reduce(
+      (sum, trade) => sum + quantityToLots(trade.quantity, this.instrument),
+      0
+    );
+
+    let remainingOrder: Order | null = null;
+    let status: OrderStatus = newTrades.length > 0 ? 'partially_filled' : 'new';
+    let reason: OrderReason | undefined;
+
+    if (filledLots === orderLots) {
+      status = 'filled';
+    } else if (selfTradeCancelled || remainingLots === 0) {
+      // Nothing left to rest once self-trade prevention has decremented the rest
+      status = 'cancelled';
+      reason = 'self_trade_prevention';
+    } else if (order.type === 'market') {
+      // Market orders behave as immediate-or-cancel; liquidity left on the
+      // opposing side means the sweep stopped at the slippage limit
+      status = 'cancelled';
+      reason =
+        this.getLevels(order.side === 'buy' ? 'sell' : 'buy').length > 0
+          ? 'slippage_limit'
+          : 'insufficient_liquidity';
+    } else if (timeInForce === 'ioc') {
+      status = 'cancelled';
+      reason = 'ioc_remainder';
+    } else {
+      // Add remaining order to book
+      remainingOrder = { ...order, quantity: lotsToQuantity(remainingLots, this.instrument) };
+      this.restOrder(remainingOrder);
+    }
+
+    if (status === 'cancelled') {
+      this.reportClosed(order.id, 'cancelled', reason);
+    }
 
-    return { trades: newTrades, remainingOrder };
+    return finish(status, remainingOrder, reason);
   }
 
-  private matchMarketOrder(order: Order, trades: Trade[]): Order | null {
-    const opposingSide = order.side === 'buy' ? 'sell' : 'buy';
-    const opposingOrders = this.orders
-      .filter(o => o.side === opposingSide)
-      .sort((a, b) => {
-        if (order.side === 'buy') {
-          return a.price - b.price; // Best ask (lowest price) first
-        } else {
-          return b.price - a.price; // Best bid (highest price) first
-        }
-      });
+  // Why the order cannot be accepted against the current book, or null when it can
+  private validateOrder(order: Order): OrderReason | null {
+    const timeInForce = order.timeInForce ?? 'gtc';
 
-    let remainingQuantity = order.quantity;
+    if (order.type !== 'market' && timeInForce === 'gtd') {
+      if (!(order.expireTime && order.expireTime > Date.now())) {
+        return 'invalid_expire_time';
+      }
+    }
 
-    for (const opposingOrder of opposingOrders) {
-      if (remainingQuantity <= 0) break;
+    const isStop = order.type === 'stop' || order.type === 'stop-limit';
+    if (isStop && (!order.stopPrice || order.stopPrice <= 0)) {
+      return 'invalid_stop_price';
+    }
 
-      const tradeQuantity = Math.min(remainingQuantity, opposingOrder.quantity);
-      const tradePrice = opposingOrder.price;
+    const hasLimitPrice = order.type === 'limit' || order.type === 'stop-limit';
+    if (order.displayQuantity !== undefined && !hasLimitPrice) {
+      return 'invalid_display_quantity';
+    }
 
-      // Create trade
-      const trade: Trade = {
-        id: `trade_${this.sequenceId++}`,
-        price: tradePrice,
-        quantity: tradeQuantity,
-        side: order.side,
-        timestamp: Date.now(),
-        buyer: order.side === 'buy' ? order.id : opposingOrder.id,
-        seller: order.side === 'sell' ? order.id : opposingOrder.id,
-      };
+    const hasSlippageLimit = order.maxSlippageBps !== undefined || order.protectionPrice !== undefined;
+    if (
+      hasSlippageLimit &&
+      (hasLimitPrice || (order.maxSlippageBps ?? 0) < 0 || (order.protectionPrice ?? 1) <= 0)
+    ) {
+      return 'invalid_slippage_limit';
+    }
+
+    const [violation] = checkInstrumentRules(this.instrument, {
+      price: hasLimitPrice ? order.price : undefined,
+      stopPrice: isStop ? order.stopPrice : undefined,
+      protectionPrice: order.protectionPrice,
+      quantity: order.quantity,
+      displayQuantity: order.displayQuantity,
+    });
+    if (violation) {
+      return violation.reason;
+    }
 
-      trades.push(trade);
+    if (isStop && this.isStopTriggered(order)) {
+      return 'stop_would_trigger_immediately';
+    }
 
-      // Update quantities
-      remainingQuantity -= tradeQuantity;
-      opposingOrder.quantity -= tradeQuantity;
+    if (order.type === 'limit') {
+      if (timeInForce === 'post-only' && this.wouldCross(order)) {
+        return 'post_only_would_cross';
+      }
 
-      // Remove filled order
-      if (opposingOrder.quantity <= 0) {
-        this.orders = this.orders.filter(o => o.id !== opposingOrder.id);
+      if (timeInForce === 'fok' && this.getCrossingLots(order) < quantityToLots(order.quantity, this.instrument)) {
+        return 'fok_unfilled';
       }
     }
 
-    // Market orders that aren't fully filled are cancelled
-    return remainingQuantity > 0 ? null : null;
+    return null;
   }
 
-  private matchLimitOrder(order: Order, trades: Trade[]): Order | null {
-    const opposingSide = order.side === 'buy' ? 'sell' : 'buy';
-    const opposingOrders = this.orders
-      .filter(o => {
-        if (o.side !== opposingSide) return false;
-        
-        if (order.side === 'buy') {
-          return o.price <= order.price; // Buy can match asks at or below limit price
-        } else {
-          return o.price >= order.price; // Sell can match bids at or above limit price
-        }
-      })
-      .sort((a, b) => {
-        if (order.side === 'buy') {
-          return a.price - b.price; // Best ask (lowest price) first
-        } else {
-          return b.price - a.price; // Best bid (highest price) first
-        }
-      });
+  private summarizeFills(trades: Trade[]): { filledQuantity: number; avgPrice: number } {
+    let lots = 0;
+    let notionalTicks = 0;
+
+    trades.forEach(trade => {
+      const tradeLots = quantityToLots(trade.quantity, this.instrument);
+      lots += tradeLots;
+      notionalTicks += priceToTicks(trade.price, this.instrument) * tradeLots;
+    });
 
-    let remainingQuantity = order.quantity;
+    return {
+      filledQuantity: lotsToQuantity(lots, this.instrument),
+      avgPrice: this.toAveragePrice(notionalTicks, lots),
+    };
+  }
+
+  // Averages fall between ticks, so keep a few extra decimals
+  private toAveragePrice(notionalTicks: number, lots: number): number {
+    if (lots === 0) return 0;
 
-    for (const opposingOrder of opposingOrders) {
-      if (remainingQuantity <= 0) break;
+    const { tickSize } = this.instrument;
+    return Number(((notionalTicks / lots) * tickSize).toFixed(getDecimals(tickSize) + 4));
+  }
 
-      const tradeQuantity = Math.min(remainingQuantity, opposingOrder.quantity);
-      const tradePrice = opposingOrder.price; // Trade at the maker's price
+  /**
+   * Converts stops whose trigger price has been reached into live orders and
+   * executes them, repeating until the last trade price settles (cascades).
+   */
+  private triggerStopOrders(expiredOrders: Order[]): AddOrderResult[] {
+    const results: AddOrderResult[] = [];
+    let stopOrder = this.takeTriggeredStop();
 
-      // Create trade
-      const trade: Trade = {
-        id: `trade_${this.sequenceId++}`,
-        price: tradePrice,
-        quantity: tradeQuantity,
-        side: order.side,
-        timestamp: Date.now(),
-        buyer: order.side === 'buy' ? order.id : opposingOrder.id,
-        seller: order.side === 'sell' ? order.id : opposingOrder.id,
+    while (stopOrder) {
+      const liveOrder: Order = {
+        ...stopOrder,
+        type: stopOrder.type === 'stop' ? 'market' : 'limit',
+        price: stopOrder.type === 'stop' ? 0 : stopOrder.price,
       };
+      const prepared = this.config.prepareTriggeredStop?.(liveOrder) ?? liveOrder;
+      results.push(
+        typeof prepared === 'string'
+          ? this.cancelTriggeredStop(liveOrder, prepared, expiredOrders)
+          : this.executeOrder(prepared, expiredOrders)
+      );
+      stopOrder = this.takeTriggeredStop();
+    }
 
-      trades.push(trade);
+    return results;
+  }
 
-      // Update quantities
-      remainingQuantity -= tradeQuantity;
-      opposingOrder.quantity -= tradeQuantity;
+  // The stop was accepted when it was placed, so turning it away now cancels it
+  private cancelTriggeredStop(
+    order: Order,
+    reason: OrderReason,
+    expiredOrders: Order[]
+  ): AddOrderResult {
+    this.reportClosed(order.id, 'cancelled', reason);
+    return {
+      trades: [],
+      remainingOrder: null,
+      status: 'cancelled',
+      reason,
+      filledQuantity: 0,
+      avgPrice: 0,
+      expiredOrders,
+      cancelledOrders: [],
+      triggeredOrders: [],
+    };
+  }
 
-      // Remove filled order
-      if (opposingOrder.quantity <= 0) {
-        this.orders = this.orders.filter(o => o.id !== opposingOrder.id);
+  private takeTriggeredStop(): Order | undefined {
+    for (const side of ['buy', 'sell'] as const) {
+      const stops = this.stopOrders[side];
+      if (stops.length > 0 && this.isStopTriggered(stops[0])) {
+        const stopOrder = stops.shift()!;
+        this.gtdOrders.delete(stopOrder.id);
+        return stopOrder;
       }
     }
 
-    // Return remaining order if any quantity left
-    if (remainingQuantity > 0) {
+    return undefined;
+  }
+
+  private isStopTriggered(order: Order): boolean {
+    if (this.lastTradeTicks === null || order.stopPrice === undefined) return false;
+
+    // Buy stops fire when the price rises to the stop, sell stops when it falls to it
+    const stopTicks = priceToTicks(order.stopPrice, this.instrument);
+    return order.side === 'buy' ? this.lastTradeTicks >= stopTicks : this.lastTradeTicks <= stopTicks;
+  }
+
+  // Stops are kept in trigger order: buy stops ascending, sell stops descending
+  private restStopOrder(order: Order): void {
+    const stops = this.stopOrders[order.side];
+    const stopTicks = priceToTicks(order.stopPrice!, this.instrument);
+    let index = stops.length;
+
+    while (index > 0) {
+      const previous = priceToTicks(stops[index - 1].stopPrice!, this.instrument);
+      const triggersFirst = order.side === 'buy' ? previous <= stopTicks : previous >= stopTicks;
+      if (triggersFirst) break;
+      index--;
+    }
+
+    stops.splice(index, 0, order);
+
+    if (order.timeInForce === 'gtd') {
+      this.gtdOrders.set(order.id, order);
+    }
+  }
+
+  /**
+   * Changes the price and/or remaining quantity of a resting order while keeping
+   * its id. Reducing quantity keeps queue position; a price change or size
+   * increase sends the order to the back of the queue, matching first if the
+   * new price crosses the book.
+   */
+  amendOrder(orderId: string, changes: OrderAmendment): AddOrderResult {
+    const entry = this.ordersById.get(orderId);
+    const reject = (reason: OrderReason): AddOrderResult => ({
+      trades: [],
+      remainingOrder: entry?.order ?? null,
+      status: 'rejected',
+      reason,
+      filledQuantity: 0,
+      avgPrice: 0,
+      expiredOrders: [],
+      cancelledOrders: [],
+      triggeredOrders: [],
+    });
+
+    if (!entry) {
+      return reject('order_not_found');
+    }
+
+    const { order, level } = entry;
+    const price = changes.price ?? order.price;
+    const quantity = changes.quantity ?? order.quantity;
+
+    if (price <= 0 || quantity <= 0) {
+      return reject('invalid_amendment');
+    }
+
+    // An iceberg peak larger than the new size shrinks to fit; a later increase
+    // grows it back towards the peak the order was placed with
+    const state = this.orderStates.get(orderId);
+    const displayPeak = state?.displayPeak ?? order.displayQuantity;
+    const displayQuantity = displayPeak === undefined ? undefined : Math.min(displayPeak, quantity);
+
+    const [violation] = checkInstrumentRules(this.instrument, { price, quantity, displayQuantity });
+    if (violation) {
+      return reject(violation.reason);
+    }
+
+    const lots = quantityToLots(quantity, this.instrument);
+
+    if (priceToTicks(price, this.instrument) === level.ticks && lots <= entry.lots) {
+      // Size reduction keeps time priority, taking from the hidden reserve first
+      const visibleLots = Math.min(entry.visibleLots, lots);
+      level.lots -= entry.lots - lots;
+      level.visibleLots -= entry.visibleLots - visibleLots;
+      entry.lots = lots;
+      entry.visibleLots = visibleLots;
+      order.quantity = lotsToQuantity(lots, this.instrument);
+      order.displayQuantity = displayQuantity;
+      if (state) {
+        this.reportReplaced(state, order, lots);
+      }
       return {
-        ...order,
-        quantity: remainingQuantity,
+        trades: [],
+        remainingOrder: order,
+        status: 'new',
+        filledQuantity: 0,
+        avgPrice: 0,
+        expiredOrders: [],
+        cancelledOrders: [],
+        triggeredOrders: [],
       };
     }
 
-    return null;
+    const amendedOrder: Order = {
+      ...order,
+      price,
+      quantity,
+      displayQuantity,
+      timestamp: Date.now(),
+      placedAt: order.placedAt ?? order.timestamp,
+    };
+
+    // Check before pulling the original so a rejected amend leaves it untouched
+    const rejection = this.validateOrder(amendedOrder);
+    if (rejection) {
+      return reject(rejection);
+    }
+
+    if (state) {
+      this.reportReplaced(state, amendedOrder, lots);
+    }
+
+    this.unlinkOrder(orderId);
+    return this.addOrder(amendedOrder);
+  }
+
+  /**
+   * Removes resting good-till-date orders whose expiry time has passed.
+   * Runs at the start of every addOrder, and can be called on a timer.
+   */
+  expireOrders(now = Date.now()): Order[] {
+    const expired: Order[] = [];
+
+    this.gtdOrders.forEach(order => {
+      if (order.expireTime !== undefined && order.expireTime <= now) {
+        expired.push(order);
+      }
+    });
+
+    expired.forEach(order => {
+      this.unlinkOrder(order.id);
+      this.reportClosed(order.id, 'expired', 'expired');
+    });
+
+    return expired;
+  }
+
+  /**
+   * Walks the opposing side best level first and each level's queue oldest
+   * order first (strict price-time priority). Resting orders from the same
+   * account are handled by the configured self-trade prevention mode.
+   */
+  private matchAgainstBook(
+    order: Order,
+    trades: Trade[],
+    cancelledOrders: CancelledOrder[]
+  ): { remainingLots: number; selfTradeCancelled: boolean } {
+    const opposingSide: Side = order.side === 'buy' ? 'sell' : 'buy';
+    const opposingLevels = this.getLevels(opposingSide);
+    const limitTicks =
+      order.type === 'limit' ? priceToTicks(order.price, this.instrument) : this.getProtectionTicks(order);
+
+    let remainingLots = quantityToLots(order.quantity, this.instrument);
+
+    while (remainingLots > 0 && opposingLevels.length > 0) {
+      const level = opposingLevels[0];
+      if (limitTicks !== null && !this.crosses(order.side, limitTicks, level.ticks)) break;
+
+      while (remainingLots > 0 && level.orders.length > 0) {
+        const opposing = level.orders[0];
+
+        if (order.accountId && opposing.order.accountId === order.accountId) {
+          const mode = this.config.selfTradePrevention;
+
+          if (mode === 'cancel_newest') {
+            return { remainingLots, selfTradeCancelled: true };
+          }
+
+          if (mode === 'decrement_and_cancel') {
+            // Both sides shrink by the overlap; whichever reaches zero is cancelled
+            const overlapLots = Math.min(remainingLots, opposing.lots);
+            remainingLots -= overlapLots;
+            cancelledOrders.push({
+              order: { ...opposing.order },
+              cancelledQuantity: lotsToQuantity(overlapLots, this.instrument),
+              reason: 'self_trade_prevention',
+            });
+            this.reduceRestingOrder(opposing, overlapLots);
+            this.reportReduced(opposing.order.id, overlapLots, 'self_trade_prevention');
+            this.reportReduced(order.id, overlapLots, 'self_trade_prevention');
+            if (remainingLots === 0) {
+              return { remainingLots, selfTradeCancelled: true };
+            }
+            continue;
+          }
+
+          // cancel_oldest and cancel_both remove the resting order
+          cancelledOrders.push({
+            order: { ...opposing.order },
+            cancelledQuantity: opposing.order.quantity,
+            reason: 'self_trade_prevention',
+          });
+          this.reduceRestingOrder(opposing, opposing.lots);
+          this.reportClosed(opposing.order.id, 'cancelled', 'self_trade_prevention');
+
+          if (mode === 'cancel_both') {
+            return { remainingLots, selfTradeCancelled: true };
+          }
+          continue;
+        }
+
+        // Icebergs trade one visible slice at a time
+        const tradeLots = Math.min(remainingLots, opposing.visibleLots);
+
+        // Trade at the maker's price
+        const price = ticksToPrice(level.ticks, this.instrument);
+        const quantity = lotsToQuantity(tradeLots, this.instrument);
+        const timestamp = Date.now();
+        const fees = this.config.fees?.chargeTrade(
+          opposing.order.accountId,
+          order.accountId,
+          toNotional(level.ticks, tradeLots, this.instrument),
+          timestamp,
+          this.instrument
+        );
+        const trade: Trade = {
+          id: `trade_${this.sequenceId++}`,
+          price,
+          quantity,
+          side: order.side,
+          timestamp,
+          buyer: order.side === 'buy' ? order.id : opposing.order.id,
+          seller: order.side === 'sell' ? order.id : opposing.order.id,
+          makerFee: fees?.makerFee ?? 0,
+          takerFee: fees?.takerFee ?? 0,
+        };
+        trades.push(trade);
+
+        remainingLots -= tradeLots;
+        this.reduceRestingOrder(opposing, tradeLots);
+        this.reportFill(order.id, level.ticks, tradeLots, trade, 'taker');
+        this.reportFill(opposing.order.id, level.ticks, tradeLots, trade, 'maker');
+      }
+    }
+
+    return { remainingLots, selfTradeCancelled: false };
+  }
+
+  // Takes lots off a resting order, dropping it (and its level) once empty
+  private reduceRestingOrder(resting: RestingOrder, lots: number): void {
+    const { order, level } = resting;
+    const visibleLots = Math.min(lots, resting.visibleLots);
+
+    resting.lots -= lots;
+    resting.visibleLots -= visibleLots;
+    level.lots -= lots;
+    level.visibleLots -= visibleLots;
+    order.quantity = lotsToQuantity(resting.lots, this.instrument);
+
+    if (resting.visibleLots === 0 && resting.lots > 0) {
+      // Iceberg peak used up: the next slice joins the back of the queue
+      resting.visibleLots = Math.min(this.getDisplayLots(order), resting.lots);
+      level.visibleLots += resting.visibleLots;
+      level.orders.splice(level.orders.indexOf(resting), 1);
+      level.orders.push(resting);
+      order.placedAt ??= order.timestamp;
+      order.timestamp = Date.now();
+    }
+
+    if (resting.lots === 0) {
+      level.orders.splice(level.orders.indexOf(resting), 1);
+      this.ordersById.delete(order.id);
+      this.gtdOrders.delete(order.id);
+
+      if (level.orders.length === 0) {
+        this.removeLevel(order.side, level);
+      }
+    }
+  }
+
+  // Furthest price a market order may sweep to; the tighter of its limits wins
+  private getProtectionTicks(order: Order): number | null {
+    const limits: number[] = [];
+
+    if (order.protectionPrice !== undefined) {
+      limits.push(priceToTicks(order.protectionPrice, this.instrument));
+    }
+
+    const bestLevel = this.getLevels(order.side === 'buy' ? 'sell' : 'buy')[0];
+    if (order.maxSlippageBps !== undefined && bestLevel) {
+      const bps = order.maxSlippageBps;
+      limits.push(
+        order.side === 'buy'
+          ? Math.floor((bestLevel.ticks * (BPS_PER_UNIT + bps)) / BPS_PER_UNIT)
+          : Math.ceil((bestLevel.ticks * (BPS_PER_UNIT - bps)) / BPS_PER_UNIT)
+      );
+    }
+
+    if (limits.length === 0) return null;
+    return order.side === 'buy' ? Math.min(...limits) : Math.max(...limits);
+  }
+
+  private wouldCross(order: Order): boolean {
+    const opposingSide: Side = order.side === 'buy' ? 'sell' : 'buy';
+    const bestLevel = this.getLevels(opposingSide)[0];
+    const limitTicks = priceToTicks(order.price, this.instrument);
+    return !!bestLevel && this.crosses(order.side, limitTicks, bestLevel.ticks);
+  }
+
+  /**
+   * Lots the order could trade against, stopping once it is covered. The
+   * account's own orders never trade with it: cancel_oldest skips past them,
+   * and every other self-trade prevention mode ends the match at the first one.
+   */
+  private getCrossingLots(order: Order): number {
+    const opposingSide: Side = order.side === 'buy' ? 'sell' : 'buy';
+    const limitTicks = priceToTicks(order.price, this.instrument);
+    const orderLots = quantityToLots(order.quantity, this.instrument);
+    let available = 0;
+
+    for (const level of this.getLevels(opposingSide)) {
+      if (!this.crosses(order.side, limitTicks, level.ticks)) break;
+
+      for (const resting of level.orders) {
+        if (available >= orderLots) return available;
+
+        if (order.accountId && resting.order.accountId === order.accountId) {
+          if (this.config.selfTradePrevention === 'cancel_oldest') continue;
+          return available;
+        }
+        available += resting.lots;
+      }
+    }
+
+    return available;
+  }
+
+  private crosses(side: Side, limitTicks: number, levelTicks: number): boolean {
+    // Buy can match asks at or below limit price, sell can match bids at or above
+    return side === 'buy' ? levelTicks <= limitTicks : levelTicks >= limitTicks;
+  }
+
+  private getLevels(side: Side): PriceLevel[] {
+    return side === 'buy' ? this.bids : this.asks;
+  }
+
+  private restOrder(order: Order): void {
+    const ticks = priceToTicks(order.price, this.instrument);
+    let level = this.levelsByTicks[order.side].get(ticks);
+
+    if (!level) {
+      level = { ticks, lots: 0, visibleLots: 0, orders: [] };
+      const levels = this.getLevels(order.side);
+      levels.splice(this.findLevelIndex(order.side, ticks), 0, level);
+      this.levelsByTicks[order.side].set(ticks, level);
+    }
+
+    const lots = quantityToLots(order.quantity, this.instrument);
+    const resting: RestingOrder = {
+      order,
+      lots,
+      visibleLots: Math.min(this.getDisplayLots(order), lots),
+      level,
+    };
+    level.orders.push(resting);
+    level.lots += resting.lots;
+    level.visibleLots += resting.visibleLots;
+    this.ordersById.set(order.id, resting);
+
+    if (order.timeInForce === 'gtd') {
+      this.gtdOrders.set(order.id, order);
+    }
+  }
+
+  private getDisplayLots(order: Order): number {
+    return quantityToLots(order.displayQuantity ?? order.quantity, this.instrument);
+  }
+
+  private removeLevel(side: Side, level: PriceLevel): void {
+    const levels = this.getLevels(side);
+    const index = levels[0] === level ? 0 : this.findLevelIndex(side, level.ticks);
+    levels.splice(index, 1);
+    this.levelsByTicks[side].delete(level.ticks);
+  }
+
+  // Binary search for the position of `ticks` in the side's best-first ordering
+  private findLevelIndex(side: Side, ticks: number): number {
+    const levels = this.getLevels(side);
+    let low = 0;
+    let high = levels.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const isBetter = side === 'buy' ? levels[mid].ticks > ticks : levels[mid].ticks < ticks;
+      if (isBetter) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
   }
 
   getOrderBook(): OrderBook {
-    const bids = this.aggregateOrdersByPrice('buy');
-    const asks = this.aggregateOrdersByPrice('sell');
+    const bids = this.aggregateOrdersByPrice('buy', BOOK_DEPTH);
+    const asks = this.aggregateOrdersByPrice('sell', BOOK_DEPTH);
 
-    const bestBid = bids[0]?.price || 0;
-    const bestAsk = asks[0]?.price || 0;
-    const midPrice = bestBid && bestAsk ? (bestBid + bestAsk) / 2 : 0;
-    const spread = bestAsk && bestBid ? bestAsk - bestBid : 0;
+    const bestBid = this.bids[0]?.ticks;
+    const bestAsk = this.asks[0]?.ticks;
+    const hasBothSides = bestBid !== undefined && bestAsk !== undefined;
+
+    // The mid can fall on a half tick, so keep one extra decimal
+    const midPrice = hasBothSides
+      ? Number((((bestBid + bestAsk) * this.instrument.tickSize) / 2).toFixed(
+          getDecimals(this.instrument.tickSize) + 1
+        ))
+      : 0;
+    const spread = hasBothSides ? ticksToPrice(bestAsk - bestBid, this.instrument) : 0;
 
     return {
-      bids: bids.slice(0, 20),
-      asks: asks.slice(0, 20),
+      bids,
+      asks,
       midPrice,
       spread,
     };
   }
 
-  private aggregateOrdersByPrice(side: 'buy' | 'sell'): OrderBookLevel[] {
-    const sideOrders = this.orders.filter(o => o.side === side);
-    const priceMap = new Map<number, { quantity: number; count: number }>();
-
-    sideOrders.forEach(order => {
-      const existing = priceMap.get(order.price) || { quantity: 0, count: 0 };
-      priceMap.set(order.price, {
-        quantity: existing.quantity + order.quantity,
-        count: existing.count + 1,
-      });
-    });
-
-    const levels = Array.from(priceMap.entries()).map(([price, data]) => ({
-      price,
-      quantity: data.quantity,
-      count: data.count,
-      total: 0, // Will be calculated below
-    }));
-
-    // Sort by price (bids: high to low, asks: low to high)
-    levels.sort((a, b) => {
-      return side === 'buy' ? b.price - a.price : a.price - b.price;
-    });
+  /** Every visible level on one side, past the BOOK_DEPTH that getOrderBook shows */
+  getDepth(side: Side): OrderBookLevel[] {
+    return this.aggregateOrdersByPrice(side, Infinity);
+  }
 
-    // Calculate running totals
-    let runningTotal = 0;
-    levels.forEach(level => {
-      runningTotal += level.quantity;
-      level.total = runningTotal;
-    });
+  // Only visible quantity is published; iceberg reserves stay hidden
+  private aggregateOrdersByPrice(side: Side, depth: number): OrderBookLevel[] {
+    let runningLots = 0;
 
-    return levels;
+    return this.getLevels(side)
+      .slice(0, depth)
+      .map(level => {
+        runningLots += level.visibleLots;
+        return {
+          price: ticksToPrice(level.ticks, this.instrument),
+          quantity: lotsToQuantity(level.visibleLots, this.instrument),
+          total: lotsToQuantity(runningLots, this.instrument),
+          count: level.orders.length,
+        };
+      });
   }
 
   getTrades(): Trade[] {
@@ -191,20 +860,197 @@ export class OrderMatcher {
   }
 
   getOrders(): Order[] {
-    return [...this.orders];
+    return [...this.bids, ...this.asks].flatMap(level => level.orders.map(resting => resting.order));
+  }
+
+  getStopOrders(): Order[] {
+    return [...this.stopOrders.buy, ...this.stopOrders.sell];
+  }
+
+  getLastTradePrice(): number | null {
+    return this.lastTradeTicks === null ? null : ticksToPrice(this.lastTradeTicks, this.instrument);
   }
 
   removeOrder(orderId: string): boolean {
-    const initialLength = this.orders.length;
-    this.orders = this.orders.filter(o => o.id !== orderId);
-    return this.orders.length < initialLength;
+    if (!this.unlinkOrder(orderId)) return false;
+
+    this.reportClosed(orderId, 'cancelled');
+    return true;
+  }
+
+  // Takes an order off the book or out of the trigger book without reporting it
+  private unlinkOrder(orderId: string): boolean {
+    const entry = this.ordersById.get(orderId);
+    if (!entry) return this.removeStopOrder(orderId);
+
+    const { order, level } = entry;
+    level.orders.splice(level.orders.indexOf(entry), 1);
+    level.lots -= entry.lots;
+    level.visibleLots -= entry.visibleLots;
+    this.ordersById.delete(orderId);
+    this.gtdOrders.delete(orderId);
+
+    if (level.orders.length === 0) {
+      this.removeLevel(order.side, level);
+    }
+
+    return true;
+  }
+
+  private removeStopOrder(orderId: string): boolean {
+    for (const side of ['buy', 'sell'] as const) {
+      const index = this.stopOrders[side].findIndex(o => o.id === orderId);
+      if (index !== -1) {
+        this.stopOrders[side].splice(index, 1);
+        this.gtdOrders.delete(orderId);
+        return true;
+      }
+    }
+
+    return false;
   }
 
   clear(): void {
-    this.orders = [];
+    this.bids = [];
+    this.asks = [];
+    this.levelsByTicks = { buy: new Map(), sell: new Map() };
+    this.ordersById.clear();
+    this.gtdOrders.clear();
+    this.stopOrders = { buy: [], sell: [] };
+    this.lastTradeTicks = null;
     this.trades = [];
+    this.orderStates.clear();
+  }
+
+  // Returns the order's running totals, starting them if this is its first event
+  private trackOrder(order: Order): OrderState {
+    const existing = this.orderStates.get(order.id);
+    if (existing) {
+      existing.order = order;
+      return existing;
+    }
+
+    const lots = quantityToLots(order.quantity, this.instrument);
+    const state: OrderState = {
+      order,
+      quantityLots: lots,
+      cumLots: 0,
+      leavesLots: lots,
+      notionalTicks: 0,
+      displayPeak: order.displayQuantity,
+    };
+    this.orderStates.set(order.id, state);
+    return state;
+  }
+
+  private reportFill(
+    orderId: string,
+    ticks: number,
+    lots: number,
+    trade: Trade,
+    liquidity: Liquidity
+  ): void {
+    const state = this.orderStates.get(orderId);
+    if (!state) return;
+
+    state.cumLots += lots;
+    state.leavesLots -= lots;
+    state.notionalTicks += ticks * lots;
+
+    const isFilled = state.cumLots === state.quantityLots;
+    this.report(state, isFilled ? 'fill' : 'partial_fill', {
+      lastTicks: ticks,
+      lastLots: lots,
+      tradeId: trade.id,
+      liquidity,
+      fee: liquidity === 'maker' ? trade.makerFee : trade.takerFee,
+    });
+
+    // Only self-trade prevention shrinks an order without filling it
+    if (!isFilled && state.leavesLots === 0) {
+      this.reportClosed(orderId, 'cancelled', 'self_trade_prevention');
+    }
+  }
+
+  // An amendment resets the open quantity; what has already filled is kept
+  private reportReplaced(state: OrderState, order: Order, leavesLots: number): void {
+    state.order = order;
+    state.leavesLots = leavesLots;
+    state.quantityLots = state.cumLots + leavesLots;
+    this.report(state, 'replaced');
+  }
+
+  // Takes lots off the open quantity without a fill, closing the order at zero
+  private reportReduced(orderId: string, lots: number, reason: OrderReason): void {
+    const state = this.orderStates.get(orderId);
+    if (!state) return;
+
+    state.leavesLots -= lots;
+    this.report(state, state.leavesLots === 0 ? 'cancelled' : 'replaced', { reason });
+  }
+
+  private reportClosed(
+    orderId: string,
+    execType: 'cancelled' | 'expired',
+    reason?: OrderReason
+  ): void {
+    const state = this.orderStates.get(orderId);
+    if (!state) return;
+
+    state.leavesLots = 0;
+    this.report(state, execType, { reason });
   }
-}
 
-// Singleton instance for the application
-export const orderMatcher = new OrderMatcher();
\ No newline at end of file
+  private report(
+    state: OrderState,
+    execType: ExecutionType,
+    details: {
+      reason?: OrderReason;
+      lastTicks?: number;
+      lastLots?: number;
+      tradeId?: string;
+      liquidity?: Liquidity;
+      fee?: number;
+    } = {}
+  ): void {
+    const { order } = state;
+    if (TERMINAL_EXEC_TYPES.has(execType)) {
+      this.orderStates.delete(order.id);
+    }
+
+    if (this.listeners.size === 0) return;
+
+    const report: ExecutionReport = {
+      id: `exec_${this.reportSequenceId++}`,
+      orderId: order.id,
+      accountId: order.accountId,
+      execType,
+      status: getReportStatus(execType, state.cumLots),
+      reason: details.reason,
+      side: order.side,
+      type: order.type,
+      price: order.price,
+      quantity: lotsToQuantity(state.quantityLots, this.instrument),
+      cumQuantity: lotsToQuantity(state.cumLots, this.instrument),
+      leavesQuantity: lotsToQuantity(state.leavesLots, this.instrument),
+      avgPrice: this.toAveragePrice(state.notionalTicks, state.cumLots),
+      timestamp: Date.now(),
+    };
+
+    if (details.tradeId !== undefined && details.lastTicks !== undefined && details.lastLots !== undefined) {
+      report.lastPrice = ticksToPrice(details.lastTicks, this.instrument);
+      report.lastQuantity = lotsToQuantity(details.lastLots, this.instrument);
+      report.tradeId = details.tradeId;
+      report.liquidity = details.liquidity;
+      report.fee = details.fee;
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(report);
+      } catch (error) {
+        console.error('Error in execution report listener:', error);
+      }
+    });
+  }
+}
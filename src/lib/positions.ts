@@ -0,0 +1,52 @@
+import type { MarketState, Position } from '../types';
+import { roundAmount } from './accounts';
+
+export const FLAT_POSITION: Position = { quantity: 0, avgEntryPrice: 0, realizedPnl: 0 };
+
+/**
+ * Adds one fill to a position. Fills in the position's direction move the
+ * average entry price; fills against it realize PnL on the part they close,
+ * and any excess opens a new position at the fill price. The fee is realized
+ * straight away, whichever way the fill goes; a rebate adds to the PnL.
+ */
+export const applyFill = (
+  position: Position,
+  side: 'buy' | 'sell',
+  price: number,
+  quantity: number,
+  fee = 0
+): Position => {
+  const signed = side === 'buy' ? quantity : -quantity;
+  const { quantity: held, avgEntryPrice } = position;
+  const realizedPnl = roundAmount(position.realizedPnl - fee);
+
+  if (held === 0 || Math.sign(held) === Math.sign(signed)) {
+    const size = Math.abs(held) + quantity;
+    return {
+      quantity: roundAmount(held + signed),
+      avgEntryPrice: roundAmount((Math.abs(held) * avgEntryPrice + quantity * price) / size),
+      realizedPnl,
+    };
+  }
+
+  const closed = Math.min(quantity, Math.abs(held));
+  const remaining = roundAmount(held + signed);
+  // A reduction keeps the entry price; a flip starts again from this fill
+  let entryPrice = Math.sign(remaining) === Math.sign(held) ? avgEntryPrice : price;
+  if (remaining === 0) {
+    entryPrice = 0;
+  }
+
+  return {
+    quantity: remaining,
+    avgEntryPrice: entryPrice,
+    realizedPnl: roundAmount(realizedPnl + closed * (price - avgEntryPrice) * Math.sign(held)),
+  };
+};
+
+/** Where open positions are valued: the mid, or the last trade on a one-sided book */
+export const getMarkPrice = (market: MarketState): number | null =>
+  market.orderBook.midPrice || market.trades[0]?.price || market.ticker?.lastPrice || null;
+
+export const getUnrealizedPnl = (position: Position, markPrice: number): number =>
+  roundAmount(position.quantity * (markPrice - position.avgEntryPrice));
@@ -0,0 +1,21 @@
+// Uniform source in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+/**
+ * Seeded PRNG (mulberry32). The same seed always yields the same sequence,
+ * which makes simulated feeds reproducible.
+ */
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** A fresh seed for runs that do not ask for one */
+export const randomSeed = (): number => Math.floor(Math.random() * 2 ** 32);
@@ -0,0 +1,66 @@
+import type { WebSocketMessage } from '../types';
+
+const MESSAGE_TYPES: WebSocketMessage['type'][] = ['snapshot', 'delta', 'trade', 'ticker'];
+
+const isWebSocketMessage = (value: unknown): value is WebSocketMessage => {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const message = value as Partial<WebSocketMessage>;
+  return (
+    MESSAGE_TYPES.includes(message.type as WebSocketMessage['type']) &&
+    typeof message.symbol === 'string' &&
+    typeof message.timestamp === 'number' &&
+    typeof message.data === 'object' &&
+    message.data !== null
+  );
+};
+
+/** One message per line, in the order they were received */
+export const serializeRecording = (messages: WebSocketMessage[]): string =>
+  messages.map(message => `${JSON.stringify(message)}\n`).join('');
+
+/**
+ * Reads a recording written by serializeRecording. Blank lines are skipped;
+ * anything else that is not a market data message fails with its line number.
+ */
+export const parseRecording = (text: string): WebSocketMessage[] => {
+  const messages: WebSocketMessage[] = [];
+
+  text.split('\n').forEach((line, index) => {
+    if (line.trim() === '') return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1} is not valid JSON`);
+    }
+    if (!isWebSocketMessage(value)) {
+      throw new Error(`Line ${index + 1} is not a market data message`);
+    }
+    messages.push(value);
+  });
+
+  return messages;
+};
+
+/** Collects messages in arrival order for saving with serializeRecording */
+export class MarketDataRecorder {
+  private messages: WebSocketMessage[] = [];
+
+  record(message: WebSocketMessage): void {
+    this.messages.push(message);
+  }
+
+  getMessages(): WebSocketMessage[] {
+    return [...this.messages];
+  }
+
+  getMessageCount(): number {
+    return this.messages.length;
+  }
+
+  toNdjson(): string {
+    return serializeRecording(this.messages);
+  }
+}
@@ -0,0 +1,344 @@
+import type {
+  BookDelta,
+  BookSnapshot,
+  ConnectionState,
+  ConnectionStateListener,
+  MarketDataListener,
+  MarketDataTransport,
+  OrderBookLevel,
+  ReplayProgress,
+  ReplayProgressListener,
+  ReplaySpeed,
+  WebSocketMessage,
+} from '../types';
+import { BOOK_DEPTH } from './orderBook';
+
+export const REPLAY_SPEEDS: ReplaySpeed[] = [0.5, 1, 5, 'max'];
+
+// At max speed messages go out in batches, yielding between them so pause still works
+const MAX_SPEED_BATCH = 500;
+
+// Trades resent after a seek; the store keeps no more than this per symbol
+const TRADE_HISTORY = 100;
+
+// What a symbol looked like at the replay position, for late subscribers and seeks
+interface SymbolReplica {
+  sequence: number | null; // null until the recording's first snapshot
+  bids: Map<number, OrderBookLevel>;
+  asks: Map<number, OrderBookLevel>;
+  trades: WebSocketMessage[];
+  ticker: WebSocketMessage | null;
+}
+
+const createReplica = (): SymbolReplica => ({
+  sequence: null,
+  bids: new Map(),
+  asks: new Map(),
+  trades: [],
+  ticker: null,
+});
+
+const sortedLevels = (levels: Map<number, OrderBookLevel>, side: 'buy' | 'sell') => {
+  let runningTotal = 0;
+
+  return [...levels.values()]
+    .sort((a, b) => (side === 'buy' ? b.price - a.price : a.price - b.price))
+    .slice(0, BOOK_DEPTH)
+    .map(level => {
+      runningTotal += level.quantity;
+      return { ...level, total: runningTotal };
+    });
+};
+
+/**
+ * Plays a recorded feed back through the transport API, on the recording's
+ * own clock scaled by the speed. stop() pauses and start() resumes where it
+ * left off. After a seek, or for a late subscriber, each symbol's state at
+ * the current position is sent as a snapshot, its recent trades and its
+ * latest ticker. Like the simulation it is open while anyone is subscribed.
+ */
+export class ReplayTransport implements MarketDataTransport {
+  private subscribers: Set<MarketDataListener> = new Set();
+  private stateListeners: Set<ConnectionStateListener> = new Set();
+  private progressListeners: Set<ReplayProgressListener> = new Set();
+  private timerId: ReturnType<typeof setTimeout> | null = null;
+  private timerStartedAt = 0;
+  private isPlaying = false;
+  private cursor = 0; // Index of the next message to send
+  private position = 0;
+  private replicas = new Map<string, SymbolReplica>();
+  private startTime: number;
+
+  constructor(
+    private messages: WebSocketMessage[],
+    private speed: ReplaySpeed = 1
+  ) {
+    this.startTime = messages[0]?.timestamp ?? 0;
+  }
+
+  subscribe(callback: MarketDataListener): () => void {
+    this.subscribers.add(callback);
+    if (this.subscribers.size === 1) {
+      this.notifyState();
+    }
+
+    // Late subscribers need the state the replay has reached
+    this.replicas.forEach((_, symbol) => this.sendState(symbol, callback));
+    this.start();
+
+    return () => {
+      if (!this.subscribers.delete(callback)) return;
+      if (this.subscribers.size === 0) {
+        this.stop();
+        this.notifyState();
+      }
+    };
+  }
+
+  onStateChange(listener: ConnectionStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  onProgress(listener: ReplayProgressListener): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  getState(): ConnectionState {
+    return this.subscribers.size > 0 ? 'open' : 'closed';
+  }
+
+  getProgress(): ReplayProgress {
+    const last = this.messages[this.messages.length - 1];
+    return {
+      position: this.position,
+      duration: last ? last.timestamp - this.startTime : 0,
+      speed: this.speed,
+      isFinished: this.cursor >= this.messages.length,
+    };
+  }
+
+  requestSnapshot(symbol: string): void {
+    const snapshot = this.createSnapshot(symbol);
+    if (snapshot) {
+      this.subscribers.forEach(callback => this.deliver(callback, snapshot));
+    }
+  }
+
+  start(): void {
+    if (this.isPlaying) return;
+
+    this.isPlaying = true;
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    this.advanceClock();
+    if (this.timerId) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    this.isPlaying = false;
+  }
+
+  setSpeed(speed: ReplaySpeed): void {
+    // Time already waited counts at the old speed
+    this.advanceClock();
+    this.speed = speed;
+    this.reschedule();
+    this.notifyProgress();
+  }
+
+  /**
+   * Jumps to `position` ms into the recording. Everything recorded before it
+   * counts as played, and subscribers are sent the state it left behind.
+   */
+  seek(position: number): void {
+    const { duration } = this.getProgress();
+    const target = Math.min(Math.max(position, 0), duration);
+
+    this.replicas = new Map();
+    this.cursor = 0;
+    while (
+      this.cursor < this.messages.length &&
+      this.messages[this.cursor].timestamp - this.startTime < target
+    ) {
+      this.apply(this.messages[this.cursor++]);
+    }
+    this.position = target;
+
+    this.replicas.forEach((_, symbol) =>
+      this.subscribers.forEach(callback => this.sendState(symbol, callback))
+    );
+    this.reschedule();
+    this.notifyProgress();
+  }
+
+  // Moves the position on by the time waited so far for the next message
+  private advanceClock(): void {
+    if (!this.timerId || this.speed === 'max') return;
+
+    const next = this.messages[this.cursor].timestamp - this.startTime;
+    const waited = (Date.now() - this.timerStartedAt) * this.speed;
+    this.position = Math.min(next, this.position + waited);
+  }
+
+  private reschedule(): void {
+    if (!this.isPlaying) return;
+
+    if (this.timerId) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    this.scheduleNext();
+  }
+
+  private scheduleNext(): void {
+    if (!this.isPlaying) return;
+
+    // The end leaves the transport open, showing the final state
+    if (this.cursor >= this.messages.length) {
+      this.isPlaying = false;
+      this.notifyProgress();
+      return;
+    }
+
+    if (this.speed === 'max') {
+      this.timerId = setTimeout(() => {
+        const end = Math.min(this.cursor + MAX_SPEED_BATCH, this.messages.length);
+        while (this.cursor < end) {
+          this.emit(this.messages[this.cursor++]);
+        }
+        this.afterSend();
+      }, 0);
+      return;
+    }
+
+    // Messages recorded in the same millisecond go out together
+    const { timestamp } = this.messages[this.cursor];
+    const delay = Math.max(0, (timestamp - this.startTime - this.position) / this.speed);
+    this.timerStartedAt = Date.now();
+    this.timerId = setTimeout(() => {
+      while (
+        this.cursor < this.messages.length &&
+        this.messages[this.cursor].timestamp <= timestamp
+      ) {
+        this.emit(this.messages[this.cursor++]);
+      }
+      this.afterSend();
+    }, delay);
+  }
+
+  private afterSend(): void {
+    this.timerId = null;
+    this.notifyProgress();
+    this.scheduleNext();
+  }
+
+  private emit(message: WebSocketMessage): void {
+    this.apply(message);
+    this.position = Math.max(this.position, message.timestamp - this.startTime);
+    this.subscribers.forEach(callback => this.deliver(callback, message));
+  }
+
+  private apply(message: WebSocketMessage): void {
+    let replica = this.replicas.get(message.symbol);
+    if (!replica) {
+      replica = createReplica();
+      this.replicas.set(message.symbol, replica);
+    }
+
+    switch (message.type) {
+      case 'snapshot': {
+        const { sequence, bids, asks } = message.data as BookSnapshot;
+        replica.sequence = sequence;
+        replica.bids = new Map(bids.map(level => [level.price, level]));
+        replica.asks = new Map(asks.map(level => [level.price, level]));
+        break;
+      }
+      case 'delta': {
+        const { sequence, changes } = message.data as BookDelta;
+        if (replica.sequence === null) break;
+
+        const { bids, asks } = replica;
+        replica.sequence = sequence;
+        changes.forEach(({ side, price, quantity, count }) => {
+          const levels = side === 'buy' ? bids : asks;
+          if (quantity === 0) {
+            levels.delete(price);
+          } else {
+            levels.set(price, { price, quantity, total: 0, count });
+          }
+        });
+        break;
+      }
+      case 'trade':
+        replica.trades = [...replica.trades, message].slice(-TRADE_HISTORY);
+        break;
+      case 'ticker':
+        replica.ticker = message;
+        break;
+    }
+  }
+
+  private createSnapshot(symbol: string): WebSocketMessage | null {
+    const replica = this.replicas.get(symbol);
+    if (replica?.sequence == null) return null;
+
+    return {
+      type: 'snapshot',
+      symbol,
+      data: {
+        sequence: replica.sequence,
+        bids: sortedLevels(replica.bids, 'buy'),
+        asks: sortedLevels(replica.asks, 'sell'),
+      },
+      timestamp: this.startTime + this.position,
+    };
+  }
+
+  private sendState(symbol: string, callback: MarketDataListener): void {
+    const replica = this.replicas.get(symbol);
+    if (!replica) return;
+
+    const snapshot = this.createSnapshot(symbol);
+    if (snapshot) this.deliver(callback, snapshot);
+    replica.trades.forEach(trade => this.deliver(callback, trade));
+    if (replica.ticker) this.deliver(callback, replica.ticker);
+  }
+
+  private deliver(callback: MarketDataListener, message: WebSocketMessage): void {
+    try {
+      callback(message);
+    } catch (error) {
+      console.error('Error in socket callback:', error);
+    }
+  }
+
+  private notifyState(): void {
+    const state = this.getState();
+    this.stateListeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('Error in socket state listener:', error);
+      }
+    });
+  }
+
+  private notifyProgress(): void {
+    const progress = this.getProgress();
+    this.progressListeners.forEach(listener => {
+      try {
+        listener(progress);
+      } catch (error) {
+        console.error('Error in replay progress listener:', error);
+      }
+    });
+  }
+}
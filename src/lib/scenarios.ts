@@ -0,0 +1,88 @@
+import type { MarketScenario, ScenarioName } from '../types';
+
+export const DEFAULT_SCENARIO: ScenarioName = 'calm';
+
+// Presets for the simulator. Calm is the simulator's original behaviour;
+// the others adjust it to reproduce specific market conditions.
+export const SCENARIOS: Record<ScenarioName, MarketScenario> = {
+  calm: {
+    name: 'calm',
+    label: 'Calm',
+    description: 'Small random moves around a steady price',
+    settings: {
+      updateInterval: [300, 800],
+      priceVolatility: 0.001, // 0.1% volatility
+      spreadRange: [0.01, 0.05],
+      ordersPerSide: 30,
+      priceDrift: 0,
+      jumpProbability: 0,
+      jumpSize: 0,
+      burstSize: 1,
+    },
+  },
+  'trending-up': {
+    name: 'trending-up',
+    label: 'Trending Up',
+    description: 'Steady upward drift with normal noise',
+    settings: {
+      updateInterval: [300, 800],
+      priceVolatility: 0.0015,
+      spreadRange: [0.01, 0.05],
+      ordersPerSide: 30,
+      priceDrift: 0.0005,
+      jumpProbability: 0,
+      jumpSize: 0,
+      burstSize: 1,
+    },
+  },
+  'flash-crash': {
+    name: 'flash-crash',
+    label: 'Flash Crash',
+    description: 'Occasional sudden 10% drops followed by a quick recovery drift',
+    settings: {
+      updateInterval: [200, 500],
+      priceVolatility: 0.002,
+      spreadRange: [0.02, 0.08],
+      ordersPerSide: 20,
+      priceDrift: 0.001,
+      jumpProbability: 0.02,
+      jumpSize: -0.1,
+      burstSize: 1,
+    },
+  },
+  illiquid: {
+    name: 'illiquid',
+    label: 'Illiquid',
+    description: 'Few resting quotes, wide spreads and slow updates',
+    settings: {
+      updateInterval: [800, 2000],
+      priceVolatility: 0.002,
+      spreadRange: [0.1, 0.2],
+      ordersPerSide: 6,
+      priceDrift: 0,
+      jumpProbability: 0,
+      jumpSize: 0,
+      burstSize: 1,
+    },
+  },
+  'high-frequency': {
+    name: 'high-frequency',
+    label: 'HF Bursts',
+    description: 'Rapid bursts of many updates at a time',
+    settings: {
+      updateInterval: [40, 120],
+      priceVolatility: 0.0008,
+      spreadRange: [0.01, 0.03],
+      ordersPerSide: 30,
+      priceDrift: 0,
+      jumpProbability: 0,
+      jumpSize: 0,
+      burstSize: 8,
+    },
+  },
+};
+
+export const SCENARIO_NAMES = Object.keys(SCENARIOS) as ScenarioName[];
+
+export const isScenarioName = (value: string): value is ScenarioName =>
+  Object.prototype.hasOwnProperty.call(SCENARIOS, value);
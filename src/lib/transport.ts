@@ -0,0 +1,21 @@
+import type { MarketDataTransport } from '../types';
+import { getEngine } from './engine';
+import { WebSocketTransport } from './webSocketTransport';
+
+export { CompositeTransport, combineConnectionStates } from './compositeTransport';
+
+// Query parameter that points the app at a real market data socket
+export const TRANSPORT_URL_PARAM = 'ws';
+
+/**
+ * Market data source for the app: a real socket when the page is opened
+ * with ?ws=<url>, otherwise the engine's simulation of every symbol.
+ */
+export const createTransport = (search = window.location.search): MarketDataTransport => {
+  const url = new URLSearchParams(search).get(TRANSPORT_URL_PARAM);
+  if (url) {
+    return new WebSocketTransport({ url });
+  }
+
+  return getEngine();
+};
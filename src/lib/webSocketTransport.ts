@@ -0,0 +1,228 @@
+import type {
+  ClientMessage,
+  ConnectionState,
+  ConnectionStateListener,
+  HeartbeatMessage,
+  MarketDataListener,
+  MarketDataTransport,
+  WebSocketMessage,
+  WebSocketTransportConfig,
+} from '../types';
+
+// The subset of the browser WebSocket the transport relies on
+export interface SocketLike {
+  readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export type SocketFactory = (url: string) => SocketLike;
+
+// WebSocket.OPEN; the global is not available under Node
+const SOCKET_OPEN = 1;
+
+const createBrowserSocket: SocketFactory = url => new WebSocket(url);
+
+/**
+ * Market data over a real WebSocket.
+ *
+ * State machine: closed -> connecting -> open. A dropped connection, or one
+ * that stays silent past the heartbeat timeout, goes to reconnecting and
+ * retries with exponential backoff until it opens again or stop() is called.
+ */
+export class WebSocketTransport implements MarketDataTransport {
+  private config: WebSocketTransportConfig;
+  private subscribers: Set<MarketDataListener> = new Set();
+  private stateListeners: Set<ConnectionStateListener> = new Set();
+  private state: ConnectionState = 'closed';
+  private socket: SocketLike | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimerId: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimerId: ReturnType<typeof setInterval> | null = null;
+  private lastMessageAt = 0;
+
+  constructor(
+    config: Partial<WebSocketTransportConfig> = {},
+    private createSocket: SocketFactory = createBrowserSocket
+  ) {
+    this.config = {
+      url: 'ws://localhost:8081',
+      heartbeatInterval: 5000,
+      heartbeatTimeout: 15000,
+      reconnectDelay: [500, 30000],
+      ...config,
+    };
+  }
+
+  subscribe(listener: MarketDataListener): () => void {
+    this.subscribers.add(listener);
+    if (this.state === 'closed') {
+      this.start();
+    }
+
+    return () => {
+      if (!this.subscribers.delete(listener)) return;
+      if (this.subscribers.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  onStateChange(listener: ConnectionStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  requestSnapshot(symbol: string): void {
+    this.send({ type: 'snapshot_request', symbol });
+  }
+
+  start(): void {
+    if (this.state !== 'closed') return;
+
+    this.reconnectAttempts = 0;
+    this.connect('connecting');
+  }
+
+  stop(): void {
+    this.clearTimers();
+    this.detachSocket();
+    this.setState('closed');
+  }
+
+  updateConfig(newConfig: Partial<WebSocketTransportConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /** Backoff before the given retry: doubles each attempt, up to the maximum */
+  getReconnectDelay(attempt: number): number {
+    const [initial, max] = this.config.reconnectDelay;
+    return Math.min(max, initial * 2 ** attempt);
+  }
+
+  private connect(state: 'connecting' | 'reconnecting'): void {
+    this.setState(state);
+
+    let socket: SocketLike;
+    try {
+      socket = this.createSocket(this.config.url);
+    } catch (error) {
+      console.error('Error opening market data socket:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket = socket;
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      this.startHeartbeat();
+      this.setState('open');
+    };
+    socket.onmessage = event => this.handleMessage(event.data);
+    // Errors are always followed by a close, which does the reconnecting
+    socket.onerror = () => {};
+    socket.onclose = () => {
+      this.detachSocket();
+      this.scheduleReconnect();
+    };
+  }
+
+  private handleMessage(data: unknown): void {
+    this.lastMessageAt = Date.now();
+
+    let message: WebSocketMessage | HeartbeatMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch (error) {
+      console.error('Malformed market data message:', error);
+      return;
+    }
+
+    if (message.type === 'pong') return;
+
+    this.subscribers.forEach(listener => {
+      try {
+        listener(message as WebSocketMessage);
+      } catch (error) {
+        console.error('Error in socket callback:', error);
+      }
+    });
+  }
+
+  private scheduleReconnect(): void {
+    this.clearTimers();
+
+    const delay = this.getReconnectDelay(this.reconnectAttempts++);
+    this.setState('reconnecting');
+    this.reconnectTimerId = setTimeout(() => {
+      this.reconnectTimerId = null;
+      this.connect('reconnecting');
+    }, delay);
+  }
+
+  private startHeartbeat(): void {
+    this.heartbeatTimerId = setInterval(() => {
+      // A half-open connection never fires close, so silence counts as a drop
+      if (Date.now() - this.lastMessageAt > this.config.heartbeatTimeout) {
+        this.detachSocket();
+        this.scheduleReconnect();
+        return;
+      }
+
+      this.send({ type: 'ping', timestamp: Date.now() });
+    }, this.config.heartbeatInterval);
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket?.readyState !== SOCKET_OPEN) return;
+    this.socket.send(JSON.stringify(message));
+  }
+
+  // Closes the current socket without its handlers firing into a new state
+  private detachSocket(): void {
+    const { socket } = this;
+    if (!socket) return;
+
+    this.socket = null;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onclose = null;
+    socket.onerror = null;
+    socket.close();
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimerId) {
+      clearTimeout(this.reconnectTimerId);
+      this.reconnectTimerId = null;
+    }
+    if (this.heartbeatTimerId) {
+      clearInterval(this.heartbeatTimerId);
+      this.heartbeatTimerId = null;
+    }
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return;
+
+    this.state = state;
+    this.stateListeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('Error in socket state listener:', error);
+      }
+    });
+  }
+}
@@ -1,8 +1,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App.tsx';
+import { connectEngineWorker } from './lib/engine';
 import './index.css';
 
+// The matching engine and simulator run in a worker where the browser allows it
+if (typeof Worker !== 'undefined') {
+  connectEngineWorker(
+    new Worker(new URL('./workers/engine.worker.ts', import.meta.url), { type: 'module' })
+  );
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
@@ -1,28 +1,112 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { AppState, OrderBook, Trade, OrderFormData, Order } from '../types';
-import { fakeSocket } from '../lib/fakeSocket';
-import { orderMatcher } from '../lib/orderMatcher';
+import type {
+  AppState,
+  OrderBook,
+  Trade,
+  OrderFormData,
+  Order,
+  OrderAmendment,
+  ExecutionReport,
+  MarketState,
+  InstrumentSpec,
+  BookSnapshot,
+  BookDelta,
+  WebSocketMessage,
+  MarketData,
+  ConnectionState,
+  MarketDataTransport,
+  ScenarioName,
+  ReplaySpeed,
+  FeedHealth,
+  ResumeMode,
+  AssetBalance,
+  Fill,
+} from '../types';
+import { DEFAULT_SYMBOL, SYMBOL_SPECS } from '../lib/markets';
+import { getEngine, simulationOptions } from '../lib/engine';
+import { checkInstrumentRules } from '../lib/instrument';
+import { AccountLedger, checkFunds, getReservation, getSweepPrice } from '../lib/accounts';
+import { FLAT_POSITION, applyFill } from '../lib/positions';
+import { DEFAULT_FEE_SCHEDULE, getFillTier } from '../lib/fees';
+import { TERMINAL_EXEC_TYPES } from '../lib/orderMatcher';
+import { applyBookChanges, buildOrderBook } from '../lib/orderBook';
+import { createTransport } from '../lib/transport';
+import { MarketDataRecorder } from '../lib/recording';
+import { ReplayTransport } from '../lib/replayTransport';
 
 interface ExchangeActions {
-  setOrderBook: (orderBook: OrderBook) => void;
-  addTrade: (trade: Trade) => void;
-  setConnection: (connected: boolean) => void;
+  // Updates default to the active symbol
+  setOrderBook: (orderBook: OrderBook, symbol?: string) => void;
+  addTrade: (trade: Trade, symbol?: string) => void;
+  setTicker: (ticker: MarketData, symbol: string) => void;
+  applyBookSnapshot: (snapshot: BookSnapshot, symbol: string) => void;
+  applyBookDelta: (delta: BookDelta, symbol: string) => void;
+  handleSocketMessage: (message: WebSocketMessage) => void;
+  setActiveSymbol: (symbol: string) => void;
+  setConnectionState: (state: ConnectionState) => void;
+  // Pausing holds incoming messages, or stops a replay; resuming flushes them
   togglePause: () => void;
+  // Applies the oldest held message
+  stepUpdate: () => void;
+  resume: (mode?: ResumeMode) => void;
+  setScenario: (scenario: ScenarioName) => void;
+  setNetworkFaults: (enabled: boolean) => void;
+  reportFeedIssue: (symbol: string, issue: FeedIssue) => void;
   updateOrderForm: (data: Partial<OrderFormData>) => void;
   setOrderModalOpen: (open: boolean) => void;
   submitOrder: (order: OrderFormData) => void;
+  amendOrder: (orderId: string, changes: OrderAmendment) => void;
+  cancelOrder: (orderId: string) => void;
+  // The active symbol's open orders, or only those on one side
+  cancelAllOrders: (side?: 'buy' | 'sell') => void;
+  // The account's open orders on the symbol, when the report comes with them
+  applyExecutionReport: (report: ExecutionReport, symbol: string, openOrders?: Order[]) => void;
+  setBalances: (balances: Record<string, AssetBalance>) => void;
+  dismissOrderOutcome: () => void;
   clearTrades: () => void;
-  initializeSocket: () => () => void;
+  startRecording: () => void;
+  // Ends the recording and returns it as NDJSON
+  stopRecording: () => string;
+  // Plays a recording in place of the live feed until stopReplay
+  startReplay: (messages: WebSocketMessage[]) => void;
+  stopReplay: () => void;
+  setReplaySpeed: (speed: ReplaySpeed) => void;
+  seekReplay: (position: number) => void;
+  // Connects to `source`, or to the transport chosen by createTransport
+  initializeSocket: (source?: MarketDataTransport) => () => void;
 }
 
 type ExchangeStore = AppState & ExchangeActions;
 
+type FeedIssue = 'gaps' | 'duplicates' | 'stale';
+
+// Account that orders placed from this UI belong to
+export const USER_ACCOUNT_ID = 'user';
+
+// How often resting good-till-date orders are checked for expiry
+const EXPIRY_CHECK_INTERVAL_MS = 1000;
+
+// A degraded feed counts as healthy again after this long without issues
+const FEED_RECOVERY_MS = 10000;
+
+// Deltas keep arriving while a snapshot is on its way; ask again only after this long
+const SNAPSHOT_RETRY_MS = 1000;
+
+// Messages held while paused; past this the oldest go, and stepping resyncs from a snapshot
+const PAUSE_BUFFER_LIMIT = 5000;
+
 const initialOrderForm: OrderFormData = {
   side: 'buy',
   type: 'limit',
   price: '',
   quantity: '',
+  stopPrice: '',
+  timeInForce: 'gtc',
+  expireTime: '',
+  displayQuantity: '',
+  maxSlippageBps: '',
+  protectionPrice: '',
 };
 
 const initialOrderBook: OrderBook = {
@@ -32,42 +116,335 @@ const initialOrderBook: OrderBook = {
   spread: 0,
 };
 
+const createMarketState = (instrument: InstrumentSpec): MarketState => ({
+  orderBook: initialOrderBook,
+  trades: [],
+  openOrders: [],
+  instrument,
+  ticker: null,
+});
+
+const initialMarkets: Record<string, MarketState> = Object.fromEntries(
+  SYMBOL_SPECS.map(spec => [spec.symbol, createMarketState(spec.instrument)])
+);
+
+const healthyFeed: FeedHealth = {
+  gaps: 0,
+  duplicates: 0,
+  stale: 0,
+  lastIssueAt: null,
+  isDegraded: false,
+};
+
+// Applies changes to one symbol's state, mirroring them to the top level when it is active
+const updateMarket = (
+  state: ExchangeStore,
+  symbol: string,
+  changes: Partial<MarketState>
+): Partial<ExchangeStore> => ({
+  markets: { ...state.markets, [symbol]: { ...state.markets[symbol], ...changes } },
+  ...(symbol === state.activeSymbol ? changes : {}),
+});
+
+// Market data source while initializeSocket is connected
+let transport: MarketDataTransport | null = null;
+// Reconnects initializeSocket to another source; its own source when none is given
+let switchSource: ((source?: MarketDataTransport) => void) | null = null;
+let recorder: MarketDataRecorder | null = null;
+let replayTransport: ReplayTransport | null = null;
+// Timestamp of the ticker message each symbol shows, to spot late ones
+let tickerTimestamps: Record<string, number> = {};
+// When each symbol last asked for a snapshot it is still waiting for
+let snapshotRequests: Record<string, number> = {};
+// Messages received while paused, oldest first
+let pausedMessages: WebSocketMessage[] = [];
+
+const requestSnapshot = (symbol: string) => {
+  const now = Date.now();
+  if (now - (snapshotRequests[symbol] ?? -Infinity) < SNAPSHOT_RETRY_MS) return;
+
+  snapshotRequests[symbol] = now;
+  transport?.requestSnapshot(symbol);
+};
+
+// Where a trade belongs in a newest-first list; late arrivals slot in behind newer trades
+const insertTrade = (trades: Trade[], trade: Trade): Trade[] => {
+  const index = trades.findIndex(existing => existing.timestamp <= trade.timestamp);
+  if (index === 0) return [trade, ...trades];
+  if (index === -1) return [...trades, trade];
+  return [...trades.slice(0, index), trade, ...trades.slice(index)];
+};
+
+// Books, trades and tickers from one feed mean nothing next to another's
+const clearMarketData = (state: ExchangeStore): Partial<ExchangeStore> => {
+  tickerTimestamps = {};
+  snapshotRequests = {};
+  const cleared = { orderBook: initialOrderBook, trades: [], ticker: null };
+  return {
+    markets: Object.fromEntries(
+      Object.entries(state.markets).map(([symbol, market]) => [symbol, { ...market, ...cleared }])
+    ),
+    ...cleared,
+    bookSequences: {},
+  };
+};
+
+const findOrderSymbol = (state: ExchangeStore, orderId: string): string =>
+  Object.keys(state.markets).find(symbol =>
+    state.markets[symbol].openOrders.some(order => order.id === orderId)
+  ) ?? state.activeSymbol;
+
 export const useExchangeStore = create<ExchangeStore>()(
   devtools(
     (set, get) => ({
       // State
-      orderBook: initialOrderBook,
-      trades: [] as Trade[],
+      ...initialMarkets[DEFAULT_SYMBOL],
       isConnected: false,
+      connectionState: 'closed' as ConnectionState,
+      scenario: simulationOptions.scenario,
+      simulationSeed: simulationOptions.seed,
       isPaused: false,
+      pendingUpdates: 0,
+      droppedUpdates: 0,
       currentOrder: initialOrderForm,
       isOrderModalOpen: false,
+      lastOrderOutcome: null,
+      orderStatuses: {} as Record<string, ExecutionReport>,
+      activeSymbol: DEFAULT_SYMBOL,
+      symbols: SYMBOL_SPECS,
+      markets: initialMarkets,
+      bookSequences: {} as Record<string, number>,
+      isRecording: false,
+      recordedMessageCount: 0,
+      replay: null,
+      feedHealth: Object.fromEntries(
+        Object.keys(initialMarkets).map(symbol => [symbol, healthyFeed])
+      ),
+      networkFaults: simulationOptions.networkFaults,
+      // The engine reports the account once it has orders; until then it holds the defaults
+      balances: new AccountLedger().getBalances([]),
+      positions: Object.fromEntries(
+        Object.keys(initialMarkets).map(symbol => [symbol, FLAT_POSITION])
+      ),
+      fills: [],
+      feeSchedule: simulationOptions.feeSchedule ?? DEFAULT_FEE_SCHEDULE,
+      orderHistory: [],
 
       // Actions
-      setOrderBook: (orderBook: OrderBook) =>
-        set({ orderBook }, false, 'setOrderBook'),
+      setOrderBook: (orderBook: OrderBook, symbol?: string) =>
+        set((state: ExchangeStore) =>
+          updateMarket(state, symbol ?? state.activeSymbol, { orderBook }),
+        false, 'setOrderBook'),
+
+      addTrade: (trade: Trade, symbol?: string) =>
+        set((state: ExchangeStore) => {
+          const marketSymbol = symbol ?? state.activeSymbol;
+          return updateMarket(state, marketSymbol, {
+            trades: insertTrade(state.markets[marketSymbol].trades, trade).slice(0, 100) // Keep last 100 trades
+          });
+        }, false, 'addTrade'),
+
+      setTicker: (ticker, symbol) =>
+        set((state: ExchangeStore) =>
+          updateMarket(state, symbol, { ticker }),
+        false, 'setTicker'),
 
-      addTrade: (trade: Trade) =>
+      applyBookSnapshot: (snapshot, symbol) =>
         set((state: ExchangeStore) => ({
-          trades: [trade, ...state.trades].slice(0, 100) // Keep last 100 trades
-        }), false, 'addTrade'),
+          ...updateMarket(state, symbol, {
+            orderBook: buildOrderBook(snapshot.bids, snapshot.asks, state.markets[symbol].instrument),
+          }),
+          bookSequences: { ...state.bookSequences, [symbol]: snapshot.sequence },
+        }), false, 'applyBookSnapshot'),
+
+      applyBookDelta: (delta, symbol) =>
+        set((state: ExchangeStore) => {
+          const { orderBook, instrument } = state.markets[symbol];
+          return {
+            ...updateMarket(state, symbol, {
+              orderBook: applyBookChanges(orderBook, delta.changes, instrument),
+            }),
+            bookSequences: { ...state.bookSequences, [symbol]: delta.sequence },
+          };
+        }, false, 'applyBookDelta'),
+
+      handleSocketMessage: (message) => {
+        const { symbol } = message;
+        // A recording or real socket may carry symbols this app does not list
+        if (!get().markets[symbol]) return;
+
+        const { reportFeedIssue } = get();
+        const lastSequence = get().bookSequences[symbol];
+
+        switch (message.type) {
+          case 'snapshot': {
+            const snapshot = message.data as BookSnapshot;
+            // Overtaken on the way by deltas already applied
+            if (lastSequence !== undefined && snapshot.sequence < lastSequence) {
+              reportFeedIssue(symbol, 'stale');
+              return;
+            }
 
-      setConnection: (connected: boolean) =>
-        set({ isConnected: connected }, false, 'setConnection'),
+            delete snapshotRequests[symbol];
+            get().applyBookSnapshot(snapshot, symbol);
+            break;
+          }
+          case 'delta': {
+            const delta = message.data as BookDelta;
+
+            // Duplicates and deltas older than the current snapshot are already applied
+            if (lastSequence !== undefined && delta.sequence <= lastSequence) {
+              reportFeedIssue(symbol, delta.sequence === lastSequence ? 'duplicates' : 'stale');
+              return;
+            }
+
+            // A missed delta leaves the book wrong until a fresh snapshot arrives
+            if (lastSequence === undefined || delta.sequence !== lastSequence + 1) {
+              if (lastSequence !== undefined) {
+                reportFeedIssue(symbol, 'gaps');
+              }
+              set((state: ExchangeStore) => {
+                const bookSequences = { ...state.bookSequences };
+                delete bookSequences[symbol];
+                return { bookSequences };
+              }, false, 'handleSocketMessage');
+              requestSnapshot(symbol);
+              return;
+            }
+
+            get().applyBookDelta(delta, symbol);
+            break;
+          }
+          case 'trade': {
+            // The mock server and older recordings send trades without fees
+            const { makerFee = 0, takerFee = 0, ...rest } = message.data as Trade;
+            const trade: Trade = { ...rest, makerFee, takerFee };
+            const [newest] = get().markets[symbol].trades;
+            if (get().markets[symbol].trades.some(existing => existing.id === trade.id)) {
+              reportFeedIssue(symbol, 'duplicates');
+              return;
+            }
+            // Late trades are still real; addTrade files them behind newer ones
+            if (newest && trade.timestamp < newest.timestamp) {
+              reportFeedIssue(symbol, 'stale');
+            }
+
+            get().addTrade(trade, symbol);
+            break;
+          }
+          case 'ticker':
+            if (message.timestamp < (tickerTimestamps[symbol] ?? -Infinity)) {
+              reportFeedIssue(symbol, 'stale');
+              return;
+            }
+
+            tickerTimestamps[symbol] = message.timestamp;
+            get().setTicker(message.data as MarketData, symbol);
+            break;
+        }
+
+        // A quiet spell with the book in sync ends a degraded state
+        const health = get().feedHealth[symbol];
+        if (
+          health.isDegraded &&
+          Date.now() - (health.lastIssueAt ?? 0) >= FEED_RECOVERY_MS &&
+          get().bookSequences[symbol] !== undefined
+        ) {
+          set((state: ExchangeStore) => ({
+            feedHealth: { ...state.feedHealth, [symbol]: { ...health, isDegraded: false } },
+          }), false, 'handleSocketMessage');
+        }
+      },
+
+      reportFeedIssue: (symbol, issue) =>
+        set((state: ExchangeStore) => {
+          const health = state.feedHealth[symbol] ?? healthyFeed;
+          return {
+            feedHealth: {
+              ...state.feedHealth,
+              [symbol]: {
+                ...health,
+                [issue]: health[issue] + 1,
+                lastIssueAt: Date.now(),
+                isDegraded: true,
+              },
+            },
+          };
+        }, false, 'reportFeedIssue'),
+
+      setActiveSymbol: (symbol: string) => {
+        const market = get().markets[symbol];
+        if (!market) return;
+
+        // Prices and sizes from the previous symbol make no sense on the new one
+        set({
+          activeSymbol: symbol,
+          ...market,
+          currentOrder: initialOrderForm,
+        }, false, 'setActiveSymbol');
+      },
+
+      setConnectionState: (connectionState: ConnectionState) =>
+        set({
+          connectionState,
+          isConnected: connectionState === 'open',
+          // A new connection may number its books afresh; it starts with snapshots
+          ...(connectionState === 'connecting' || connectionState === 'reconnecting'
+            ? { bookSequences: {} }
+            : {}),
+        }, false, 'setConnectionState'),
 
       togglePause: () => {
-        const { isPaused } = get();
-        set({ isPaused: !isPaused }, false, 'togglePause');
-        
-        if (isPaused) {
-          // Resume
-          fakeSocket.start();
+        if (get().isPaused) {
+          get().resume();
         } else {
-          // Pause
-          fakeSocket.stop();
+          replayTransport?.stop();
+          set({ isPaused: true }, false, 'togglePause');
         }
       },
 
+      stepUpdate: () => {
+        const message = pausedMessages.shift();
+        if (!message) return;
+
+        set({ pendingUpdates: pausedMessages.length }, false, 'stepUpdate');
+        get().handleSocketMessage(message);
+      },
+
+      resume: (mode = 'flush') => {
+        if (!get().isPaused) return;
+
+        const held = pausedMessages;
+        pausedMessages = [];
+        set({ isPaused: false, pendingUpdates: 0, droppedUpdates: 0 }, false, 'resume');
+
+        // A stopped replay held nothing back and carries on from where it was
+        if (replayTransport) {
+          replayTransport.start();
+          return;
+        }
+
+        if (mode === 'flush') {
+          held.forEach(message => get().handleSocketMessage(message));
+          return;
+        }
+
+        // Skipped deltas leave every book behind; fresh snapshots catch them up
+        snapshotRequests = {};
+        set({ bookSequences: {} }, false, 'resume');
+        Object.keys(get().markets).forEach(requestSnapshot);
+      },
+
+      setScenario: (scenario: ScenarioName) => {
+        getEngine().setScenario(scenario);
+        set({ scenario }, false, 'setScenario');
+      },
+
+      setNetworkFaults: (enabled: boolean) => {
+        getEngine().setNetworkFaults(enabled);
+        set({ networkFaults: enabled }, false, 'setNetworkFaults');
+      },
+
       updateOrderForm: (data: Partial<OrderFormData>) =>
         set((state: ExchangeStore) => ({
           currentOrder: { ...state.currentOrder, ...data }
@@ -77,85 +454,361 @@ export const useExchangeStore = create<ExchangeStore>()(
         set({ isOrderModalOpen: open }, false, 'setOrderModalOpen'),
 
       submitOrder: (orderData) => {
+        const { activeSymbol } = get();
+        const hasLimitPrice = orderData.type === 'limit' || orderData.type === 'stop-limit';
+        const isStop = orderData.type === 'stop' || orderData.type === 'stop-limit';
+
         const order: Order = {
           id: `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          price: orderData.type === 'market' ? 0 : parseFloat(orderData.price) || 0,
+          price: hasLimitPrice ? parseFloat(orderData.price) || 0 : 0,
           quantity: parseFloat(orderData.quantity) || 0,
           side: orderData.side,
           type: orderData.type,
           timestamp: Date.now(),
+          accountId: USER_ACCOUNT_ID,
+          symbol: activeSymbol,
         };
 
+        if (isStop) {
+          order.stopPrice = parseFloat(orderData.stopPrice ?? '') || 0;
+        }
+
+        if (hasLimitPrice) {
+          order.timeInForce = orderData.timeInForce ?? 'gtc';
+          if (order.timeInForce === 'gtd' && orderData.expireTime) {
+            order.expireTime = new Date(orderData.expireTime).getTime();
+          }
+          if (orderData.displayQuantity) {
+            order.displayQuantity = parseFloat(orderData.displayQuantity) || 0;
+          }
+        } else {
+          // Market and stop orders sweep the book, optionally within a slippage limit
+          if (orderData.maxSlippageBps) {
+            order.maxSlippageBps = parseFloat(orderData.maxSlippageBps) || 0;
+          }
+          if (orderData.protectionPrice) {
+            order.protectionPrice = parseFloat(orderData.protectionPrice) || 0;
+          }
+        }
+
         // Validate order
         if (order.quantity <= 0) {
           console.error('Invalid quantity');
           return;
         }
 
-        if (order.type === 'limit' && order.price <= 0) {
+        if (hasLimitPrice && order.price <= 0) {
           console.error('Invalid price for limit order');
           return;
         }
 
-        // Process order through matching engine
-        const { trades, remainingOrder } = orderMatcher.addOrder(order);
+        if (isStop && !order.stopPrice) {
+          console.error('Invalid stop price for stop order');
+          return;
+        }
 
-        // Add trades to store
-        trades.forEach(trade => {
-          get().addTrade(trade);
+        // Off-tick prices and off-lot quantities never reach the engine
+        const [violation] = checkInstrumentRules(get().instrument, {
+          price: hasLimitPrice ? order.price : undefined,
+          stopPrice: order.stopPrice,
+          protectionPrice: order.protectionPrice,
+          quantity: order.quantity,
+          displayQuantity: order.displayQuantity,
         });
+        if (violation) {
+          console.error(violation.message);
+          set({
+            lastOrderOutcome: { order, status: 'rejected', reason: violation.reason },
+          }, false, 'submitOrder');
+          return;
+        }
 
-        // Update order book from matching engine
-        const updatedOrderBook = orderMatcher.getOrderBook();
-        get().setOrderBook(updatedOrderBook);
+        // The engine checks again against the book it matches on
+        const { symbols, balances, orderBook, fills, feeSchedule } = get();
+        const spec = symbols.find(s => s.symbol === activeSymbol);
+        const reservation =
+          spec &&
+          getReservation(
+            order,
+            spec,
+            getSweepPrice(orderBook.asks, order.quantity),
+            getFillTier(fills, feeSchedule).takerRate
+          );
+        const shortfall = reservation && checkFunds(reservation, balances, symbols);
+        if (shortfall) {
+          console.error(shortfall);
+          set({
+            lastOrderOutcome: { order, status: 'rejected', reason: 'insufficient_funds' },
+          }, false, 'submitOrder');
+          return;
+        }
 
         // Reset form and close modal
-        set({
-          currentOrder: initialOrderForm,
-          isOrderModalOpen: false,
-        }, false, 'submitOrder');
+        set({ currentOrder: initialOrderForm, isOrderModalOpen: false }, false, 'submitOrder');
 
-        console.log('Order submitted:', order);
-        console.log('Generated trades:', trades);
-        console.log('Remaining order:', remainingOrder);
+        // Process order through matching engine; lifecycle updates arrive as execution reports,
+        // and trades and the resulting book through the feed, like everyone else's
+        getEngine()
+          .submitOrder(order)
+          .then(({ status, reason, filledQuantity, avgPrice, openOrders }) =>
+            set((state: ExchangeStore) => ({
+              ...updateMarket(state, activeSymbol, { openOrders }),
+              lastOrderOutcome: { order, status, reason, filledQuantity, avgPrice },
+            }), false, 'submitOrder')
+          )
+          .catch(error => console.error('Order submission failed:', error));
+      },
+
+      amendOrder: (orderId, changes) => {
+        const symbol = findOrderSymbol(get(), orderId);
+        const previous = get().markets[symbol].openOrders.find(o => o.id === orderId);
+
+        getEngine()
+          .amendOrder(symbol, orderId, changes)
+          .then(({ remainingOrder, status, reason, tradeCount, openOrders }) => {
+            set((state: ExchangeStore) =>
+              updateMarket(state, symbol, { openOrders }),
+            false, 'amendOrder');
+
+            // Quiet on success unless the new price traded against the book
+            if (previous && (status === 'rejected' || tradeCount > 0)) {
+              const order = remainingOrder ?? { ...previous, ...changes };
+              set({ lastOrderOutcome: { order, status, reason } }, false, 'amendOrder');
+            }
+          })
+          .catch(error => console.error('Order amendment failed:', error));
+      },
+
+      cancelOrder: (orderId) => {
+        const symbol = findOrderSymbol(get(), orderId);
+        const previous = get().markets[symbol].openOrders.find(o => o.id === orderId);
+
+        getEngine()
+          .cancelOrder(symbol, USER_ACCOUNT_ID, orderId)
+          .then(({ cancelledCount, openOrders }) => {
+            set((state: ExchangeStore) =>
+              updateMarket(state, symbol, { openOrders }),
+            false, 'cancelOrder');
+
+            // Filled or expired on the way; the cancelled report speaks for itself otherwise
+            if (previous && cancelledCount === 0) {
+              set({
+                lastOrderOutcome: {
+                  order: previous,
+                  status: 'rejected',
+                  reason: 'order_not_found',
+                },
+              }, false, 'cancelOrder');
+            }
+          })
+          .catch(error => console.error('Order cancellation failed:', error));
+      },
+
+      cancelAllOrders: (side) => {
+        const symbol = get().activeSymbol;
+
+        getEngine()
+          .cancelAllOrders(symbol, USER_ACCOUNT_ID, side)
+          .then(({ openOrders }) =>
+            set((state: ExchangeStore) =>
+              updateMarket(state, symbol, { openOrders }),
+            false, 'cancelAllOrders')
+          )
+          .catch(error => console.error('Order cancellation failed:', error));
+      },
+
+      applyExecutionReport: (report, symbol, openOrders) => {
+        if (report.accountId !== USER_ACCOUNT_ID) return;
+
+        const { lastPrice, lastQuantity } = report;
+        const fill: Fill | null =
+          lastPrice !== undefined && lastQuantity !== undefined
+            ? {
+                id: report.tradeId ?? report.id,
+                orderId: report.orderId,
+                symbol,
+                side: report.side,
+                price: lastPrice,
+                quantity: lastQuantity,
+                fee: report.fee ?? 0,
+                liquidity: report.liquidity ?? 'taker',
+                timestamp: report.timestamp,
+              }
+            : null;
+        const isTerminal = TERMINAL_EXEC_TYPES.has(report.execType);
+
+        set((state: ExchangeStore) => ({
+          ...(openOrders ? updateMarket(state, symbol, { openOrders }) : {}),
+          orderStatuses: { ...state.orderStatuses, [report.orderId]: report },
+          // Reports, unlike feed trades, are never dropped, repeated or held by a pause
+          ...(fill
+            ? {
+                positions: {
+                  ...state.positions,
+                  [symbol]: applyFill(
+                    state.positions[symbol] ?? FLAT_POSITION,
+                    fill.side,
+                    fill.price,
+                    fill.quantity,
+                    fill.fee
+                  ),
+                },
+                fills: [fill, ...state.fills],
+              }
+            : {}),
+          ...(isTerminal
+            ? { orderHistory: [{ ...report, symbol }, ...state.orderHistory] }
+            : {}),
+        }), false, 'applyExecutionReport');
       },
 
+      setBalances: (balances) =>
+        set({ balances }, false, 'setBalances'),
+
+      dismissOrderOutcome: () =>
+        set({ lastOrderOutcome: null }, false, 'dismissOrderOutcome'),
+
       clearTrades: () =>
-        set({ trades: [] }, false, 'clearTrades'),
+        set((state: ExchangeStore) =>
+          updateMarket(state, state.activeSymbol, { trades: [] }),
+        false, 'clearTrades'),
+
+      startRecording: () => {
+        recorder = new MarketDataRecorder();
+        set({ isRecording: true, recordedMessageCount: 0 }, false, 'startRecording');
+
+        // Deltas only replay on top of a snapshot, so the recording opens with them
+        Object.keys(get().markets).forEach(symbol => transport?.requestSnapshot(symbol));
+      },
+
+      stopRecording: () => {
+        const ndjson = recorder?.toNdjson() ?? '';
+        recorder = null;
+        set({ isRecording: false }, false, 'stopRecording');
+        return ndjson;
+      },
+
+      startReplay: (messages) => {
+        const replay = new ReplayTransport(messages);
+        replay.onProgress(progress => {
+          if (replayTransport === replay) {
+            set({ replay: progress }, false, 'replayProgress');
+          }
+        });
+        replayTransport = replay;
+
+        set((state: ExchangeStore) => ({
+          ...clearMarketData(state),
+          replay: replay.getProgress(),
+        }), false, 'startReplay');
+        switchSource?.(replay);
+        // Subscribing starts the replay, which waits if loaded while paused
+        if (get().isPaused) replay.stop();
+      },
+
+      stopReplay: () => {
+        if (!replayTransport) return;
+
+        replayTransport = null;
+        set((state: ExchangeStore) => ({
+          ...clearMarketData(state),
+          replay: null,
+        }), false, 'stopReplay');
+        switchSource?.();
+      },
+
+      setReplaySpeed: (speed) => replayTransport?.setSpeed(speed),
 
-      initializeSocket: () => {
-        let unsubscribe: (() => void) | null = null;
+      seekReplay: (position) => {
+        if (!replayTransport) return;
+
+        // The replay resends each book, its recent trades and ticker as of the new position
+        set(clearMarketData, false, 'seekReplay');
+        replayTransport.seek(position);
+      },
+
+      initializeSocket: (source) => {
+        let unsubscribers: (() => void)[] = [];
+        let expiryIntervalId: ReturnType<typeof setInterval> | null = null;
+        let currentSource = source;
+
+        // Recordings take messages as they arrive, whether or not the pause holds them
+        const receiveMessage = (message: WebSocketMessage) => {
+          if (recorder && get().markets[message.symbol]) {
+            recorder.record(message);
+            set({ recordedMessageCount: recorder.getMessageCount() }, false, 'receiveMessage');
+          }
+
+          // A stopped replay only sends what a seek asks for, which shows straight away
+          if (!get().isPaused || replayTransport) {
+            get().handleSocketMessage(message);
+            return;
+          }
+
+          pausedMessages.push(message);
+          const dropped = Math.max(pausedMessages.length - PAUSE_BUFFER_LIMIT, 0);
+          pausedMessages.splice(0, dropped);
+          set((state: ExchangeStore) => ({
+            pendingUpdates: pausedMessages.length,
+            droppedUpdates: state.droppedUpdates + dropped,
+          }), false, 'receiveMessage');
+        };
 
         const connect = () => {
-          get().setConnection(true);
-          
-          unsubscribe = fakeSocket.subscribe((message) => {
-            if (get().isPaused) return;
-
-            switch (message.type) {
-              case 'orderbook':
-                get().setOrderBook(message.data as OrderBook);
-                break;
-              case 'trade':
-                get().addTrade(message.data as Trade);
-                break;
-            }
-          });
+          const activeTransport = currentSource ?? createTransport();
+          transport = activeTransport;
+
+          // The badge follows the transport rather than assuming it connected
+          unsubscribers.push(activeTransport.onStateChange(get().setConnectionState));
+
+          unsubscribers.push(
+            getEngine().onExecutionReport(({ symbol, report, openOrders }) =>
+              get().applyExecutionReport(report, symbol, openOrders)
+            ),
+            getEngine().onBalances(({ accountId, balances }) => {
+              if (accountId === USER_ACCOUNT_ID) get().setBalances(balances);
+            })
+          );
+
+          // Every symbol streams in the background so switching is instant
+          unsubscribers.push(activeTransport.subscribe(receiveMessage));
+          get().setConnectionState(activeTransport.getState());
+
+          // Good-till-date orders expire even when nothing else reaches the engine
+          expiryIntervalId = setInterval(
+            () => getEngine().expireOrders(),
+            EXPIRY_CHECK_INTERVAL_MS
+          );
         };
 
         const disconnect = () => {
-          get().setConnection(false);
-          if (unsubscribe) {
-            unsubscribe();
-            unsubscribe = null;
+          unsubscribers.forEach(unsubscribe => unsubscribe());
+          unsubscribers = [];
+          transport = null;
+          snapshotRequests = {};
+          // Held messages belong to the source being left
+          pausedMessages = [];
+          set({ pendingUpdates: 0, droppedUpdates: 0 }, false, 'disconnect');
+          get().setConnectionState('closed');
+          // A later subscription starts again from a snapshot
+          set({ bookSequences: {} }, false, 'disconnect');
+          if (expiryIntervalId) {
+            clearInterval(expiryIntervalId);
+            expiryIntervalId = null;
           }
         };
 
         // Auto-connect
         connect();
+        switchSource = next => {
+          disconnect();
+          currentSource = next ?? source;
+          connect();
+        };
 
         // Return cleanup function
         return () => {
+          switchSource = null;
           disconnect();
         };
       },
@@ -1,12 +1,206 @@
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop-limit';
+
+export type TimeInForce = 'gtc' | 'ioc' | 'fok' | 'gtd' | 'post-only';
+
 export interface Order {
   id: string;
   price: number;
   quantity: number;
   side: 'buy' | 'sell';
-  type: 'market' | 'limit';
+  type: OrderType;
+  timestamp: number; // Queue priority; amendments and iceberg slices move it on
+  placedAt?: number; // When the order was placed, kept once `timestamp` has moved on
+  timeInForce?: TimeInForce; // Defaults to 'gtc'
+  expireTime?: number; // Required for 'gtd'
+  stopPrice?: number; // Trigger price for 'stop' and 'stop-limit'
+  accountId?: string; // Owner, used for self-trade prevention
+  displayQuantity?: number; // Iceberg peak shown on the book; the rest stays hidden
+  // Market and stop orders: stop sweeping beyond this distance from the best price
+  maxSlippageBps?: number;
+  protectionPrice?: number; // Or beyond this absolute price
+  symbol?: string; // Set by the store; each symbol has its own matcher
+}
+
+export type OrderStatus =
+  | 'new'
+  | 'partially_filled'
+  | 'filled'
+  | 'cancelled'
+  | 'rejected'
+  | 'expired';
+
+export type OrderReason =
+  | 'insufficient_liquidity'
+  | 'ioc_remainder'
+  | 'fok_unfilled'
+  | 'post_only_would_cross'
+  | 'invalid_expire_time'
+  | 'expired'
+  | 'invalid_stop_price'
+  | 'stop_would_trigger_immediately'
+  | 'order_not_found'
+  | 'invalid_amendment'
+  | 'invalid_tick_size'
+  | 'invalid_lot_size'
+  | 'below_min_quantity'
+  | 'below_min_notional'
+  | 'self_trade_prevention'
+  | 'invalid_display_quantity'
+  | 'slippage_limit'
+  | 'invalid_slippage_limit'
+  | 'insufficient_funds';
+
+export type SelfTradePreventionMode =
+  | 'cancel_newest'
+  | 'cancel_oldest'
+  | 'cancel_both'
+  | 'decrement_and_cancel';
+
+// Fee rates are fractions of the notional; a negative maker rate is a rebate
+export interface FeeTier {
+  minVolume: number; // Rolling quote volume that unlocks the tier
+  makerRate: number;
+  takerRate: number;
+}
+
+export interface FeeSchedule {
+  tiers: FeeTier[]; // Ascending by minVolume, the first starting at 0
+  volumeWindowDays: number;
+}
+
+// What each side of a trade pays, in the quote asset
+export interface TradeFees {
+  makerFee: number;
+  takerFee: number;
+}
+
+// Charges trades and keeps the volume that sets each account's tier
+export interface FeeModel {
+  chargeTrade(
+    makerAccountId: string | undefined,
+    takerAccountId: string | undefined,
+    notional: number,
+    timestamp: number,
+    spec: InstrumentSpec
+  ): TradeFees;
+}
+
+export interface OrderMatcherConfig {
+  instrument: InstrumentSpec;
+  selfTradePrevention: SelfTradePreventionMode;
+  fees?: FeeModel; // Trades are free without one
+  // Gets a triggered stop ready to execute, or says why it cannot; it executes as is without one
+  prepareTriggeredStop?: (order: Order) => Order | OrderReason;
+}
+
+export interface CancelledOrder {
+  order: Order; // Snapshot taken just before the cancellation
+  cancelledQuantity: number;
+  reason: OrderReason;
+}
+
+export interface AddOrderResult {
+  trades: Trade[];
+  remainingOrder: Order | null;
+  status: OrderStatus;
+  reason?: OrderReason;
+  filledQuantity: number; // Filled by this order on arrival
+  avgPrice: number; // Average price of those fills, 0 if none
+  expiredOrders: Order[];
+  cancelledOrders: CancelledOrder[]; // Resting orders cancelled as a side effect
+  // Stops set off by this order's trades; their trades are also included in `trades`
+  triggeredOrders: AddOrderResult[];
+}
+
+export interface OrderAmendment {
+  price?: number;
+  quantity?: number; // New remaining quantity
+}
+
+export interface OrderOutcome {
+  order: Order;
+  status: OrderStatus;
+  reason?: OrderReason;
+  filledQuantity?: number;
+  avgPrice?: number;
+}
+
+export type ExecutionType =
+  | 'new'
+  | 'partial_fill'
+  | 'fill'
+  | 'cancelled'
+  | 'replaced'
+  | 'rejected'
+  | 'expired';
+
+// Makers' orders were resting on the book; takers' traded against them
+export type Liquidity = 'maker' | 'taker';
+
+export interface ExecutionReport {
+  id: string;
+  orderId: string;
+  accountId?: string;
+  execType: ExecutionType;
+  status: OrderStatus;
+  reason?: OrderReason;
+  side: 'buy' | 'sell';
+  type: OrderType;
+  price: number; // Limit price, 0 for market orders
+  quantity: number; // Total order quantity, including anything cancelled
+  cumQuantity: number; // Filled so far
+  leavesQuantity: number; // Still open, 0 once the order is done
+  avgPrice: number; // Volume-weighted average fill price, 0 before the first fill
+  lastPrice?: number; // Set on fills
+  lastQuantity?: number;
+  tradeId?: string;
+  liquidity?: Liquidity; // Set on fills
+  fee?: number; // Set on fills, in the quote asset; negative for a rebate
   timestamp: number;
 }
 
+// One of the user's fills
+export interface Fill {
+  id: string; // The trade's id
+  orderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  price: number;
+  quantity: number;
+  fee: number; // In the quote asset
+  liquidity: Liquidity;
+  timestamp: number;
+}
+
+// The last report of one of the user's orders that is done
+export interface OrderHistoryEntry extends ExecutionReport {
+  symbol: string;
+}
+
+export interface InstrumentSpec {
+  tickSize: number; // Smallest price increment
+  lotSize: number; // Smallest quantity increment
+  minQuantity: number;
+  minNotional: number; // Minimum price * quantity for priced orders
+}
+
+export interface SymbolSpec {
+  symbol: string; // e.g. 'BTC-USD'
+  baseAsset: string;
+  quoteAsset: string;
+  initialPrice: number; // Where the simulated feed starts
+  volumeRange: [number, number]; // Simulated order sizes, in base units
+  instrument: InstrumentSpec;
+}
+
+// One asset in an account; open orders hold back what they could spend
+export interface AssetBalance {
+  asset: string;
+  total: number;
+  reserved: number;
+  available: number; // total - reserved
+}
+
 export interface OrderBookLevel {
   price: number;
   quantity: number;
@@ -29,6 +223,9 @@ export interface Trade {
   timestamp: number;
   buyer?: string;
   seller?: string;
+  // Paid in the quote asset; missing from older feeds and recordings
+  makerFee?: number;
+  takerFee?: number;
 }
 
 export interface MarketData {
@@ -41,31 +238,309 @@ export interface MarketData {
   low24h: number;
 }
 
+// One changed price level; quantity 0 removes the level
+export interface BookLevelChange {
+  side: 'buy' | 'sell';
+  price: number;
+  quantity: number;
+  count: number;
+}
+
+// Full book at `sequence`; deltas that follow carry sequence + 1, + 2, ...
+export interface BookSnapshot {
+  sequence: number;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+}
+
+export interface BookDelta {
+  sequence: number;
+  changes: BookLevelChange[];
+}
+
 export interface WebSocketMessage {
-  type: 'orderbook' | 'trade' | 'ticker';
-  data: OrderBook | Trade | MarketData;
+  type: 'snapshot' | 'delta' | 'trade' | 'ticker';
+  symbol: string;
+  data: BookSnapshot | BookDelta | Trade | MarketData;
+  timestamp: number;
+}
+
+// Messages a client sends up the socket
+export type ClientMessage =
+  | { type: 'ping'; timestamp: number }
+  | { type: 'snapshot_request'; symbol: string };
+
+// Server reply to a ping; consumed by the transport, never passed on
+export interface HeartbeatMessage {
+  type: 'pong';
   timestamp: number;
 }
 
+export type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type MarketDataListener = (message: WebSocketMessage) => void;
+export type ConnectionStateListener = (state: ConnectionState) => void;
+
+/**
+ * Source of market data messages. The first subscriber connects and the
+ * last unsubscribe disconnects; stop() and start() pause and resume the
+ * stream in between.
+ */
+export interface MarketDataTransport {
+  subscribe(listener: MarketDataListener): () => void;
+  onStateChange(listener: ConnectionStateListener): () => void;
+  getState(): ConnectionState;
+  requestSnapshot(symbol: string): void;
+  start(): void;
+  stop(): void;
+}
+
+export interface MarketRegistryOptions {
+  seed: number; // Feeds are seeded seed, seed + 1, ... in registration order
+  scenario: ScenarioName;
+  networkFaults: boolean;
+  feeSchedule?: FeeSchedule; // DEFAULT_FEE_SCHEDULE when omitted
+}
+
+// Requests to the matching engine and simulator, which may run in a worker
+export type EngineRequest =
+  | { type: 'init'; options: MarketRegistryOptions }
+  | { type: 'subscribe' }
+  | { type: 'unsubscribe' }
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'requestSnapshot'; symbol?: string } // Every symbol when omitted
+  | { type: 'submitOrder'; order: Order }
+  | { type: 'amendOrder'; symbol: string; orderId: string; changes: OrderAmendment }
+  // Orders are only cancelled for the account that owns them
+  | { type: 'cancelOrder'; symbol: string; accountId: string; orderId: string }
+  // The account's resting orders on the symbol, or only those on one side
+  | { type: 'cancelAllOrders'; symbol: string; accountId: string; side?: 'buy' | 'sell' }
+  | { type: 'expireOrders' }
+  | { type: 'setScenario'; scenario: ScenarioName }
+  | { type: 'setNetworkFaults'; enabled: boolean };
+
+export interface EngineRequestEnvelope {
+  id: number;
+  request: EngineRequest;
+}
+
+// The outcome of an order request, without the trades, which go out on the feed
+export interface EngineOrderResult
+  extends Pick<
+    AddOrderResult,
+    'remainingOrder' | 'status' | 'reason' | 'filledQuantity' | 'avgPrice'
+  > {
+  tradeCount: number;
+  openOrders: Order[]; // The account's resting orders on the symbol afterwards
+}
+
+export interface EngineCancelResult {
+  cancelledCount: number; // 0 when the orders had already filled or gone
+  openOrders: Order[];
+}
+
+// Requests not listed here are answered with no result
+export interface EngineResults {
+  submitOrder: EngineOrderResult;
+  amendOrder: EngineOrderResult;
+  cancelOrder: EngineCancelResult;
+  cancelAllOrders: EngineCancelResult;
+}
+
+export type EngineResult<T extends EngineRequest['type']> = T extends keyof EngineResults
+  ? EngineResults[T]
+  : void;
+
+export interface EngineResponse {
+  type: 'response';
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+// Sent by the engine unprompted
+export type EngineEvent =
+  | { type: 'market'; message: WebSocketMessage }
+  | { type: 'connection'; state: ConnectionState }
+  | { type: 'execution'; symbol: string; report: ExecutionReport; openOrders: Order[] }
+  | { type: 'balances'; accountId: string; balances: Record<string, AssetBalance> };
+
+export type EngineMessage = EngineResponse | EngineEvent;
+
+export interface WebSocketTransportConfig {
+  url: string;
+  heartbeatInterval: number; // ms between pings
+  heartbeatTimeout: number; // ms of silence before the connection counts as dead
+  reconnectDelay: [number, number]; // initial and maximum backoff, ms
+}
+
+export type ReplaySpeed = 0.5 | 1 | 5 | 'max';
+
+export interface ReplayProgress {
+  position: number; // ms since the first recorded message
+  duration: number; // ms from the first recorded message to the last
+  speed: ReplaySpeed;
+  isFinished: boolean;
+}
+
+export type ReplayProgressListener = (progress: ReplayProgress) => void;
+
 export interface OrderFormData {
   side: 'buy' | 'sell';
-  type: 'market' | 'limit';
+  type: OrderType;
   price: string;
   quantity: string;
+  stopPrice?: string;
+  timeInForce?: TimeInForce;
+  expireTime?: string; // datetime-local value, used for 'gtd'
+  displayQuantity?: string; // Optional iceberg peak for priced orders
+  maxSlippageBps?: string; // Optional protection for market and stop orders
+  protectionPrice?: string;
+}
+
+// Net holding built from the user's own fills; negative quantity is short
+export interface Position {
+  quantity: number;
+  avgEntryPrice: number; // 0 while flat
+  realizedPnl: number; // In the quote asset, from fills that reduced the position
+}
+
+// Everything the store keeps per symbol
+export interface MarketState {
+  orderBook: OrderBook;
+  trades: Trade[];
+  openOrders: Order[];
+  instrument: InstrumentSpec;
+  ticker: MarketData | null; // Null until the symbol has traded
 }
 
 export interface AppState {
+  // The active symbol's market state is mirrored at the top level for the panels
   orderBook: OrderBook;
   trades: Trade[];
   isConnected: boolean;
+  connectionState: ConnectionState;
+  scenario: ScenarioName; // Simulator preset for every symbol
+  simulationSeed: number; // Reproduce a run with ?seed=<value>
   isPaused: boolean;
+  // Messages held while paused, applied by stepping or on resume
+  pendingUpdates: number;
+  droppedUpdates: number; // Oldest held messages dropped once the buffer was full
   currentOrder: OrderFormData;
   isOrderModalOpen: boolean;
+  lastOrderOutcome: OrderOutcome | null;
+  openOrders: Order[];
+  orderStatuses: Record<string, ExecutionReport>; // Latest report per order of ours
+  instrument: InstrumentSpec;
+  ticker: MarketData | null;
+  activeSymbol: string;
+  symbols: SymbolSpec[];
+  markets: Record<string, MarketState>;
+  // Last applied book sequence per symbol; missing while awaiting a snapshot
+  bookSequences: Record<string, number>;
+  isRecording: boolean;
+  recordedMessageCount: number;
+  replay: ReplayProgress | null; // Set while a recording is playing instead of the live feed
+  feedHealth: Record<string, FeedHealth>;
+  networkFaults: boolean; // Simulated feeds run over a bad network
+  balances: Record<string, AssetBalance>; // The user's account, by asset
+  positions: Record<string, Position>; // By symbol
+  fills: Fill[]; // Newest first, every symbol, never trimmed
+  feeSchedule: FeeSchedule;
+  orderHistory: OrderHistoryEntry[]; // Newest first, every symbol, never trimmed
+}
+
+// Resuming applies every held message, or skips them and starts again from snapshots
+export type ResumeMode = 'flush' | 'fast-forward';
+
+export type ScenarioName = 'calm' | 'trending-up' | 'flash-crash' | 'illiquid' | 'high-frequency';
+
+// Quote both sides around the fair value, leaning against their inventory
+export interface MarketMakerParams {
+  count: number;
+  cancelProbability: number; // Chance per step that any one quote is pulled
+  inventorySkew: number; // Fraction of price quotes shift per typical order held
+  maxInventory: number; // Typical orders held before a maker stops adding to its position
+}
+
+// Buy after the price has risen, sell after it has fallen
+export interface MomentumTraderParams {
+  count: number;
+  lookback: number; // Trades the move is measured over
+  threshold: number; // Relative move that triggers a trade
+  activity: number; // Chance per step of acting on a signal
+}
+
+// Trade at random, with market orders or limit orders near the fair value
+export interface NoiseTraderParams {
+  count: number;
+  activity: number; // Chance per step of sending an order
+  marketOrderProbability: number;
+  limitRange: number; // Limit prices fall within this fraction of the fair value
+  orderLifetime: number; // Steps a resting limit order is left before it is cancelled
+}
+
+export interface AgentPopulation {
+  marketMakers: MarketMakerParams;
+  momentumTraders: MomentumTraderParams;
+  noiseTraders: NoiseTraderParams;
 }
 
 export interface FakeSocketConfig {
+  symbol: string;
+  initialPrice: number;
   updateInterval: [number, number]; // min, max ms
   priceVolatility: number;
   volumeRange: [number, number];
   spreadRange: [number, number];
+  ordersPerSide: number; // Resting quotes market makers keep on each side, between them
+  instrument: InstrumentSpec;
+  agents: AgentPopulation;
+  priceDrift: number; // Expected relative price move per book update
+  jumpProbability: number; // Chance per book update of a sudden price jump
+  jumpSize: number; // Relative size of a jump; negative for crashes
+  burstSize: number; // Most updates generated back to back per interval
+  faults: FaultConfig; // Network conditions between the feed and its subscribers
+  seed?: number; // Seeds the simulator's PRNG; the same seed replays the same feed
+  scenario?: ScenarioName; // Preset applied under any explicit settings
+}
+
+// How a simulated network mistreats messages; all zero is a perfect network
+export interface FaultConfig {
+  latency: [number, number]; // min, max ms each delivery is delayed
+  dropRate: number; // Chance a message is lost
+  duplicateRate: number; // Chance a message arrives twice
+  reorderRate: number; // Chance a message is held back behind the next one
+  disconnectRate: number; // Chance per update that the connection drops
+  disconnectDuration: [number, number]; // min, max ms before it comes back
+}
+
+// Problems the store has noticed in one symbol's feed
+export interface FeedHealth {
+  gaps: number; // Missed book deltas, each followed by a resync
+  duplicates: number; // Messages seen before
+  stale: number; // Messages older than data already shown
+  lastIssueAt: number | null;
+  isDegraded: boolean; // Set by any issue; cleared after a quiet spell with the book in sync
+}
+
+// The market-behaviour part of FakeSocketConfig that scenarios set
+export type ScenarioSettings = Pick<
+  FakeSocketConfig,
+  | 'updateInterval'
+  | 'priceVolatility'
+  | 'spreadRange'
+  | 'ordersPerSide'
+  | 'priceDrift'
+  | 'jumpProbability'
+  | 'jumpSize'
+  | 'burstSize'
+>;
+
+export interface MarketScenario {
+  name: ScenarioName;
+  label: string;
+  description: string;
+  settings: ScenarioSettings;
 }
\ No newline at end of file
@@ -0,0 +1,13 @@
+// Entry point of the engine worker: the matching engines and simulated feeds
+// run here, off the thread that renders the UI.
+import { EngineHost } from '../lib/engineHost';
+import type { EngineMessage, EngineRequestEnvelope } from '../types';
+
+// The worker global, typed by hand since the project compiles against the DOM lib
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<EngineRequestEnvelope>) => void) | null;
+  postMessage(message: EngineMessage): void;
+};
+
+const host = new EngineHost(message => scope.postMessage(message));
+scope.onmessage = event => host.handle(event.data);